@@ -1,11 +1,36 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { Vector3 } from 'three';
 import * as Tone from 'tone';
 import GameScene from './components/GameScene';
 import HUD from './components/HUD';
 import TitleScreen from './components/TitleScreen';
-import { MobileInputState } from './types';
+import ReplayViewer from './components/ReplayViewer';
+import { MobileInputState, GameOverInfo } from './types';
 import { audioService } from './services/audioService';
+import { statsService } from './services/statsService';
+import { gameplayBus, replayBus } from './services/gameplayBus';
+import { runHistory } from './services/runHistoryService';
+import { ghostService } from './services/ghostService';
+import { difficultyService } from './services/difficultyService';
+import { raceService } from './services/raceService';
+import { downloadJson } from './services/download';
+import { parseSeed, randomSeed } from './simulation/random';
+import { DistrictId } from './simulation/districts';
+import { Replay, ReplayPlayer, encodeReplay } from './simulation/replay';
+import { GhostPath, GhostRecorder, GhostStatus, encodeGhost, getGhostKey } from './simulation/ghost';
+import { Difficulty } from './simulation/difficulty';
+import { GAME_MODES, GameModeId } from './simulation/gameModes';
+import { CourseId } from './simulation/raceCourse';
+
+// A shared link like ?seed=1234 (or ?seed=neon) replays that exact city
+const getInitialSeed = (): number => {
+  const param = new URLSearchParams(window.location.search).get('seed');
+  const parsed = param ? parseSeed(param) : null;
+  return parsed ?? randomSeed();
+};
+
+// Keeps the current config when nothing changed, so the simulation isn't rebuilt
+const keepIfSame = (prev: Difficulty, next: Difficulty) => (JSON.stringify(prev) === JSON.stringify(next) ? prev : next);
 
 const App: React.FC = () => {
   const [gameStarted, setGameStarted] = useState(false);
@@ -13,15 +38,39 @@ const App: React.FC = () => {
   const [isLocked, setIsLocked] = useState(false);
   const [isGameOver, setIsGameOver] = useState(false);
   const [wispColor, setWispColor] = useState('#00ffff');
-  const [sentinelProximity, setSentinelProximity] = useState(1000);
+  // Resolved when a run starts (adaptive mode looks at the runs before it)
+  const [difficulty, setDifficulty] = useState(() => difficultyService.resolve(runHistory.getRuns()));
+  const [mode, setMode] = useState<GameModeId>('survival');
+  const [quitRequested, setQuitRequested] = useState(false);
+  const [course, setCourse] = useState<CourseId>('circuit');
+  const [seed, setSeed] = useState(getInitialSeed);
+  // Bests on this course and city, as they stood when the run started
+  const [courseBest, setCourseBest] = useState(() => raceService.getBest(course, seed));
   const [isMobile, setIsMobile] = useState(false);
+  const [district, setDistrict] = useState<DistrictId>('downtown');
+  const [runs, setRuns] = useState(() => runHistory.getRuns());
+  const [lastRunId, setLastRunId] = useState<string | null>(null);
+  // Only the first game-over report of a run is recorded
+  const runEndedRef = useRef(false);
+  // Replay of the run that just ended, and the one being watched (if any)
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [replayCamera, setReplayCamera] = useState<'follow' | 'free'>('follow');
+  const replayPlayer = useMemo(() => (replay ? new ReplayPlayer(replay, replayBus) : null), [replay]);
+  // Best path on this city raced alongside the live run
+  const [ghost, setGhost] = useState<GhostPath | null>(null);
+  const [ghostStatus, setGhostStatus] = useState<GhostStatus | null>(null);
+  const ghostRecorder = useRef(new GhostRecorder());
+  const scoreRef = useRef(0);
 
   // Ref for mobile input to avoid re-renders
   const mobileInput = useRef<MobileInputState>({
     move: { x: 0, y: 0 },
     look: { x: 0, y: 0 },
     jump: false,
-    grapple: false
+    grapple: false,
+    emp: false,
+    lure: false
   });
 
   useEffect(() => {
@@ -36,8 +85,32 @@ const App: React.FC = () => {
     };
     checkMobile();
   }, []);
+
+  // Sound effects for the live run and for replays; lifetime stats only count live play
+  useEffect(() => {
+    const unsubscribe = [
+      audioService.listen(gameplayBus),
+      audioService.listen(replayBus),
+      statsService.listen(gameplayBus)
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, []);
   
-  const handleStartGame = useCallback(() => {
+  const handleStartGame = useCallback((startSeed: number) => {
+    setSeed(startSeed);
+    // Keep the address bar shareable
+    const url = new URL(window.location.href);
+    url.searchParams.set('seed', String(startSeed));
+    window.history.replaceState(null, '', url.toString());
+
+    const next = difficultyService.resolve(runHistory.getRuns());
+    setDifficulty(prev => keepIfSame(prev, next));
+    setCourseBest(raceService.getBest(course, startSeed));
+
+    ghostRecorder.current.reset();
+    setGhost(ghostService.getGhost(getGhostKey(startSeed, mode, next.id, course)));
+    setGhostStatus(null);
+
     Tone.start();
     audioService.init();
     setGameStarted(true);
@@ -45,61 +118,182 @@ const App: React.FC = () => {
     // On Desktop, this state is synced with PointerLock.
     // On Mobile, this acts as the "Game Active" flag.
     setIsLocked(true);
-  }, []);
+  }, [mode, course]);
 
-  const handleCollectStar = useCallback(() => {
-    setScore(prev => prev + 1);
+  // Star values and chain bonuses
+  const handleScore = useCallback((points: number) => {
+    scoreRef.current += points;
+    ghostRecorder.current.collectStar(points);
+    setScore(prev => prev + points);
   }, []);
 
-  const handleGameOver = useCallback(() => {
+  const handleGameOver = useCallback((info: GameOverInfo, runReplay: Replay) => {
+    if (runEndedRef.current) return;
+    runEndedRef.current = true;
+
+    // The replay carries the simulation's own score, which can be a tick ahead of ours
+    const record = runHistory.record({
+      ...info,
+      score: runReplay.score,
+      seed,
+      wispColor,
+      mode: runReplay.mode,
+      difficulty: runReplay.difficulty.id,
+      ease: runReplay.difficulty.ease
+    });
+    setRuns(runHistory.getRuns());
+    setLastRunId(record.id);
+    setLastReplay(runReplay);
+    if (info.race) raceService.submit(info.race, seed);
+    // A quit run says nothing about pace
+    if (info.cause !== 'quit') {
+      ghostService.submit(ghostRecorder.current.finish({
+        ...getGhostKey(seed, runReplay.mode, runReplay.difficulty.id, runReplay.course),
+        score: runReplay.score,
+        cleared: info.cause === 'cleared',
+        survivalTime: info.survivalTime,
+        wispColor,
+        date: record.date
+      }));
+    }
+
     setIsGameOver(true);
     setIsLocked(false); 
+  }, [seed, wispColor]);
+
+  const handleWatchReplay = useCallback((toWatch: Replay) => {
+    // Loading a replay from the title screen is the first user gesture that needs sound
+    Tone.start();
+    audioService.init();
+    setReplayCamera('follow');
+    setReplay(toWatch);
+  }, []);
+
+  const handleExportReplay = useCallback((toExport: Replay) => {
+    downloadJson(`neon-wisp-replay-${toExport.seed}-${toExport.score}.json`, encodeReplay(toExport));
+  }, []);
+
+  const handleHistoryChange = useCallback(() => {
+    setRuns(runHistory.getRuns());
   }, []);
 
   const handleRestart = useCallback((color: string) => {
     setWispColor(color);
     setScore(0);
-    setSentinelProximity(1000);
+    // An early death may have eased things off for the next attempt
+    const next = difficultyService.resolve(runHistory.getRuns());
+    setDifficulty(prev => keepIfSame(prev, next));
+    setQuitRequested(false);
+    setCourseBest(raceService.getBest(course, seed));
     setIsGameOver(false);
+    runEndedRef.current = false;
+    setLastReplay(null);
+    scoreRef.current = 0;
+    ghostRecorder.current.reset();
+    // A run that just set a new best becomes the next ghost
+    setGhost(ghostService.getGhost(getGhostKey(seed, mode, next.id, course)));
+    setGhostStatus(null);
     // On Mobile, auto-resume (lock). On Desktop, set false to force "Click to Resume" overlay.
     setIsLocked(isMobile);
-  }, [isMobile]);
+  }, [isMobile, seed, mode, course]);
 
-  const handleWispPositionUpdate = useCallback((pos: Vector3) => {
-    // Position tracking if needed
-  }, []);
+  const handleWispMoved = useCallback((pos: Vector3) => {
+    const recorder = ghostRecorder.current;
+    recorder.record(pos);
+    if (!ghost) return;
+    // Only re-render when the (0.1s resolution) readout actually changes
+    const status = recorder.getStatus(ghost, scoreRef.current);
+    setGhostStatus(prev =>
+      prev && prev.delta === status.delta && prev.beaten === status.beaten ? prev : status
+    );
+  }, [ghost]);
+
+  // The live run reports in over gameplayBus
+  useEffect(() => {
+    const unsubscribe = [
+      gameplayBus.on('starCollected', event => handleScore(event.value)),
+      gameplayBus.on('chainComplete', event => handleScore(event.bonus)),
+      gameplayBus.on('wispMoved', event => handleWispMoved(event.position)),
+      gameplayBus.on('districtChanged', event => setDistrict(event.district)),
+      gameplayBus.on('gameOver', event => handleGameOver(event.info, event.replay))
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, [handleScore, handleWispMoved, handleGameOver]);
+
+  const handleExportGhost = useCallback(() => {
+    const best = ghostService.getGhost(getGhostKey(seed, mode, difficulty.id, course));
+    if (!best) return;
+    downloadJson(`neon-wisp-ghost-${best.seed}-${best.score}.json`, encodeGhost(best));
+  }, [seed, mode, difficulty, course]);
 
   return (
     <div className="relative w-screen h-screen bg-black overflow-hidden font-sans selection:bg-cyan-500 selection:text-black">
       <div className="absolute inset-0 z-0">
         <GameScene 
-            onWispPositionUpdate={handleWispPositionUpdate} 
-            onCollectStar={handleCollectStar}
             isLocked={isLocked}
             setIsLocked={setIsLocked}
             score={score}
             isGameOver={isGameOver}
-            onGameOver={handleGameOver}
             onRestart={handleRestart}
             wispColor={wispColor}
-            onProximityUpdate={setSentinelProximity}
+            difficulty={difficulty}
+            mode={GAME_MODES[mode]}
+            course={course}
+            quitRequested={quitRequested}
             mobileInput={mobileInput}
             isMobile={isMobile}
             gameStarted={gameStarted}
+            seed={seed}
+            district={district}
+            replayPlayer={replayPlayer}
+            replayCamera={replayCamera}
+            ghost={ghost}
         />
       </div>
 
-      {!gameStarted && (
-        <TitleScreen onStart={handleStartGame} />
+      {replayPlayer && replay && (
+        <ReplayViewer
+            player={replayPlayer}
+            camera={replayCamera}
+            onCameraChange={setReplayCamera}
+            onExport={() => handleExportReplay(replay)}
+            onExit={() => setReplay(null)}
+        />
+      )}
+
+      {!gameStarted && !replay && (
+        <TitleScreen
+            onStart={handleStartGame}
+            initialSeed={seed}
+            mode={mode}
+            onModeChange={setMode}
+            course={course}
+            onCourseChange={setCourse}
+            runs={runs}
+            onHistoryChange={handleHistoryChange}
+            onLoadReplay={handleWatchReplay}
+            onLoadGhost={(loaded) => ghostService.setGhost(loaded)}
+        />
       )}
 
-      {gameStarted && (
+      {gameStarted && !replay && (
         <HUD 
             score={score} 
             isLocked={isLocked} 
             isGameOver={isGameOver} 
             onRestart={handleRestart} 
-            sentinelProximity={sentinelProximity}
+            mode={GAME_MODES[mode]}
+            courseBest={courseBest}
+            onEndRun={() => setQuitRequested(true)}
+            seed={seed}
+            difficulty={difficulty}
+            district={district}
+            runs={runs}
+            lastRunId={lastRunId}
+            onWatchReplay={lastReplay ? () => handleWatchReplay(lastReplay) : undefined}
+            onExportReplay={lastReplay ? () => handleExportReplay(lastReplay) : undefined}
+            ghostStatus={ghostStatus}
+            onExportGhost={handleExportGhost}
         />
       )}
     </div>
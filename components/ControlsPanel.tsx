@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BindingSlot, InputAction } from '../types';
+import {
+  ACTION_LABELS,
+  DEFAULT_PROFILE,
+  INPUT_ACTIONS,
+  describeBinding,
+  inputService,
+  useInputProfile
+} from '../services/inputService';
+
+const SLOTS: { slot: BindingSlot; label: string }[] = [
+  { slot: 'keyboard', label: 'KEYBOARD / MOUSE' },
+  { slot: 'gamepad', label: 'CONTROLLER' }
+];
+
+// Rebinding table and profile management, shown on the pause screen
+const ControlsPanel: React.FC = () => {
+  const profile = useInputProfile();
+  const [capturing, setCapturing] = useState<{ action: InputAction; slot: BindingSlot } | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const stopCapture = useRef<(() => void) | null>(null);
+
+  // Never leave a capture listening after the panel closes
+  useEffect(() => () => stopCapture.current?.(), []);
+
+  const startCapture = (action: InputAction, slot: BindingSlot) => {
+    stopCapture.current?.();
+    setCapturing({ action, slot });
+    setMessage(null);
+    stopCapture.current = inputService.captureBinding(
+      slot,
+      binding => {
+        inputService.setBinding(action, binding);
+        setCapturing(null);
+      },
+      () => setCapturing(null)
+    );
+  };
+
+  const handleSaveAs = () => {
+    try {
+      inputService.saveProfileAs(profileName);
+      setProfileName('');
+      setMessage(null);
+    } catch (err) {
+      setMessage((err as Error).message.toUpperCase());
+    }
+  };
+
+  return (
+    <div className="bg-black/70 border border-cyan-900/50 p-6 rounded-lg backdrop-blur-sm font-mono text-xs tracking-widest pointer-events-auto max-w-3xl w-full max-h-[70vh] overflow-y-auto">
+      {/* Profiles */}
+      <div className="flex flex-wrap items-center gap-3 mb-4 border-b border-cyan-900/50 pb-3">
+        <span className="text-cyan-500 font-bold">PROFILE</span>
+        {inputService.getProfiles().map(p => (
+          <button
+            key={p.name}
+            onClick={() => inputService.setActiveProfile(p.name)}
+            className={`transition-colors focus:outline-none ${p.name === profile.name ? 'text-cyan-300' : 'text-gray-500 hover:text-cyan-400'}`}
+          >
+            [{p.name}]
+          </button>
+        ))}
+        <input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSaveAs(); }}
+          placeholder="NEW PROFILE"
+          spellCheck={false}
+          className="ml-auto w-32 bg-black/60 border border-gray-700 px-2 py-1 text-cyan-300 tracking-widest focus:outline-none focus:border-cyan-500"
+        />
+        <button onClick={handleSaveAs} className="text-gray-500 hover:text-cyan-400 transition-colors focus:outline-none">
+          [SAVE AS]
+        </button>
+      </div>
+
+      {/* Bindings */}
+      <table className="w-full text-left">
+        <thead>
+          <tr className="text-gray-600">
+            <th className="font-normal py-1">ACTION</th>
+            {SLOTS.map(s => <th key={s.slot} className="font-normal">{s.label}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {INPUT_ACTIONS.map(action => (
+            <tr key={action} className="text-cyan-100/80">
+              <td className="py-0.5 text-gray-400">{ACTION_LABELS[action]}</td>
+              {SLOTS.map(({ slot }) => {
+                const active = capturing?.action === action && capturing.slot === slot;
+                const bindings = profile.bindings[action][slot];
+                return (
+                  <td key={slot}>
+                    <button
+                      onClick={() => startCapture(action, slot)}
+                      onContextMenu={(e) => {
+                        e.preventDefault();
+                        inputService.clearBinding(action, slot);
+                      }}
+                      className={`w-full text-left px-2 py-0.5 border transition-colors focus:outline-none ${active ? 'border-yellow-500 text-yellow-300 animate-pulse' : 'border-transparent hover:border-cyan-700 text-cyan-400'}`}
+                    >
+                      {active
+                        ? (slot === 'keyboard' ? 'PRESS KEY / CLICK...' : 'PRESS BUTTON / PUSH STICK...')
+                        : bindings.length > 0 ? `[${bindings.map(describeBinding).join(' / ')}]` : '—'}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-4 flex items-center gap-4 text-[10px]">
+        <span className="text-gray-600 mr-auto">{message ?? 'CLICK TO REBIND // RIGHT-CLICK TO CLEAR // ESC CANCELS'}</span>
+        <button
+          onClick={() => inputService.resetActiveProfile()}
+          className="text-gray-500 hover:text-cyan-400 transition-colors focus:outline-none"
+        >
+          [RESET DEFAULTS]
+        </button>
+        {profile.name !== DEFAULT_PROFILE && (
+          <button
+            onClick={() => inputService.deleteProfile(profile.name)}
+            className="text-gray-500 hover:text-red-400 transition-colors focus:outline-none"
+          >
+            [DELETE PROFILE]
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ControlsPanel;
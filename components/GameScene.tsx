@@ -1,6 +1,6 @@
-import React, { useState, useMemo, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useMemo, useRef, useCallback, useEffect, useLayoutEffect } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
-import { PointerLockControls, Stars } from '@react-three/drei';
+import { OrbitControls, PointerLockControls, Stars } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
 import * as THREE from 'three';
 import * as Tone from 'tone';
@@ -8,23 +8,51 @@ import ProceduralCity from './ProceduralCity';
 import Wisp from './Wisp';
 import MusicSystem from './MusicSystem';
 import MobileControls from './MobileControls';
-import { audioService } from '../services/audioService';
-import { BuildingData, StarData, SentinelData, MobileInputState } from '../types';
-
+import SimulationLoop, { useFixedStep, useSimulation } from './SimulationLoop';
+import { TICK_RATE, TickPriority } from '../simulation/fixedStep';
+import { gameplayBus, replayBus } from '../services/gameplayBus';
+import { hashString } from '../simulation/random';
+import { StarField } from '../simulation/starField';
+import { STAR_TYPES } from '../simulation/starTypes';
+import { DistrictId } from '../simulation/districts';
+import { GameSimulation, MAX_STARS } from '../simulation/gameSimulation';
+import { MAX_SENTINELS } from '../simulation/sentinelStore';
+import { HEAVY_FIELD_RADIUS, SENTINEL_ARCHETYPES, SENTINEL_TYPES, SNIPER_LOCK_TIME, SentinelType } from '../simulation/sentinelArchetypes';
+import { ReplayPlayer, ReplayRecorder } from '../simulation/replay';
+import { Difficulty } from '../simulation/difficulty';
+import { GameMode } from '../simulation/gameModes';
+import { CourseId, getRaceResult } from '../simulation/raceCourse';
+import RaceCourseView from './RaceCourseView';
+import { WispInput } from '../simulation/wispPhysics';
+import { GhostPath } from '../simulation/ghost';
+import { EMP_RADIUS } from '../simulation/abilities';
+import GhostWisp from './GhostWisp';
+import { MobileInputState, GameOverInfo, StarType } from '../types';
+
+// The live run publishes everything that happens in it on gameplayBus (see
+// services/gameplayBus), and a replay being watched on replayBus
 interface GameSceneProps {
-  onWispPositionUpdate: (pos: THREE.Vector3) => void;
-  onCollectStar: () => void;
   isLocked: boolean;
   setIsLocked: (locked: boolean) => void;
   score: number;
   isGameOver: boolean;
-  onGameOver: () => void;
   onRestart: (color: string) => void;
   wispColor: string;
-  onProximityUpdate: (dist: number) => void;
+  difficulty: Difficulty;
+  mode: GameMode;
+  course: CourseId;
+  // Set from the pause screen: end the live run where it stands
+  quitRequested: boolean;
   mobileInput?: React.MutableRefObject<MobileInputState>;
   isMobile?: boolean;
   gameStarted: boolean;
+  seed: number;
+  district: DistrictId;
+  // Watching a replay instead of playing
+  replayPlayer?: ReplayPlayer | null;
+  replayCamera?: 'follow' | 'free';
+  // Best path on this city, raced alongside the live run
+  ghost?: GhostPath | null;
 }
 
 interface ExplosionData {
@@ -32,6 +60,51 @@ interface ExplosionData {
   position: THREE.Vector3;
 }
 
+// EMP shockwave: a shell that races out to the pulse's reach and fades
+const EmpPulseEffect: React.FC<{ position: THREE.Vector3 }> = ({ position }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const age = useRef(0);
+
+  useFixedStep((dt) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    age.current += dt;
+    const t = Math.min(1, age.current / 0.4);
+    mesh.scale.setScalar(Math.max(0.01, t * EMP_RADIUS));
+    (mesh.material as THREE.MeshBasicMaterial).opacity = 0.6 * (1 - t);
+  }, TickPriority.Effects);
+
+  return (
+    <mesh ref={meshRef} position={position} scale={0.01}>
+      <sphereGeometry args={[1, 24, 16]} />
+      <meshBasicMaterial color="#66ccff" wireframe transparent opacity={0.6} depthWrite={false} toneMapped={false} />
+    </mesh>
+  );
+};
+
+// Pulsing marker where the lure beacon landed, while it lasts
+const LureMarker: React.FC<{ sim: GameSimulation }> = ({ sim }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useFrame((state) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    mesh.visible = sim.lure !== null;
+    if (!sim.lure) return;
+    const time = state.clock.getElapsedTime();
+    mesh.position.copy(sim.lure.position);
+    mesh.rotation.y = time * 3;
+    mesh.scale.setScalar(1 + (Math.sin(time * 10) + 1) * 0.25);
+  });
+
+  return (
+    <mesh ref={meshRef} visible={false}>
+      <octahedronGeometry args={[1.5, 0]} />
+      <meshBasicMaterial color="#00ffaa" wireframe toneMapped={false} />
+    </mesh>
+  );
+};
+
 // Effect for a single explosion
 const ExplosionEffect: React.FC<{ position: THREE.Vector3 }> = ({ position }) => {
   const groupRef = useRef<THREE.Group>(null);
@@ -47,9 +120,11 @@ const ExplosionEffect: React.FC<{ position: THREE.Vector3 }> = ({ position }) =>
     }));
   }, []);
 
-  useFrame((state, delta) => {
+  useFixedStep((dt) => {
     if (!groupRef.current) return;
-    const dt = Math.min(delta, 0.05);
+    // Per-frame factors were tuned at 60Hz
+    const shrink = Math.pow(0.92, dt * 60);
+    const grow = Math.pow(1.1, dt * 60);
 
     // Animate particles
     groupRef.current.children.forEach((child, i) => {
@@ -57,14 +132,14 @@ const ExplosionEffect: React.FC<{ position: THREE.Vector3 }> = ({ position }) =>
         child.position.add(particles[i].velocity.clone().multiplyScalar(dt));
         child.rotation.x += particles[i].rotation.x * 10 * dt;
         child.rotation.y += particles[i].rotation.y * 10 * dt;
-        child.scale.multiplyScalar(0.92); // Fade out scale
+        child.scale.multiplyScalar(shrink); // Fade out scale
       } else { // Shockwave
-        child.scale.multiplyScalar(1.1);
+        child.scale.multiplyScalar(grow);
         const mat = (child as THREE.Mesh).material as THREE.MeshBasicMaterial;
         if (mat.opacity > 0) mat.opacity -= 2 * dt;
       }
     });
-  });
+  }, TickPriority.Effects);
 
   return (
     <group ref={groupRef} position={position}>
@@ -83,395 +158,327 @@ const ExplosionEffect: React.FC<{ position: THREE.Vector3 }> = ({ position }) =>
   );
 };
 
+// Root element of the scene; pointer lock only engages on clicks inside it
+const VIEWPORT_ID = 'game-viewport';
+
+// The HUD status goes out at 10Hz
+const STATUS_REPORT_TICKS = TICK_RATE / 10;
+
+// Bob + spin are done in the vertex shader from a per-instance phase, so instance
+// matrices are only written when a star is added or removed. Flash stars (aFlash = 1)
+// blink the same way, and the instance colour tints the glow as well as the body.
+const addFloatAnimation = (material: THREE.Material, time: { value: number }, spin: boolean) => {
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.uTime = time;
+    shader.vertexShader = 'uniform float uTime;\nattribute float aPhase;\nattribute float aFlash;\n' + shader.vertexShader;
+    if (spin) {
+      shader.vertexShader = shader.vertexShader.replace('#include <beginnormal_vertex>', `#include <beginnormal_vertex>
+        float starSpin = uTime * 0.5 + aPhase;
+        mat2 starRot = mat2(cos(starSpin), -sin(starSpin), sin(starSpin), cos(starSpin));
+        objectNormal.xz = starRot * objectNormal.xz;`);
+    }
+    shader.vertexShader = shader.vertexShader.replace('#include <begin_vertex>', `#include <begin_vertex>
+      transformed *= 1.0 - aFlash * step(0.0, sin(uTime * 12.0 + aPhase)) * 0.6;
+      ${spin ? 'transformed.xz = starRot * transformed.xz;' : ''}
+      // Offset in world units regardless of instance scale
+      transformed.y += sin(uTime * 2.0 + aPhase * 0.5) * 0.5 / length(instanceMatrix[1].xyz);`);
+    shader.fragmentShader = shader.fragmentShader.replace('#include <emissivemap_fragment>', `#include <emissivemap_fragment>
+      #ifdef USE_COLOR
+        totalEmissiveRadiance *= vColor;
+      #endif`);
+  };
+  material.customProgramCacheKey = () => `float-star-${spin}`;
+};
+
+const STAR_COLORS = Object.fromEntries(
+  Object.entries(STAR_TYPES).map(([type, { color }]) => [type, new THREE.Color(color)])
+) as Record<StarType, THREE.Color>;
+
 // Local Collectibles Component using InstancedMesh for performance
-const CollectibleStars: React.FC<{ data: StarData[], collectedIds: Set<string> }> = ({ data, collectedIds }) => {
+const CollectibleStars: React.FC<{ starField: StarField }> = ({ starField }) => {
   const meshRef = useRef<THREE.InstancedMesh>(null);
   const glowRef = useRef<THREE.InstancedMesh>(null);
   const dummy = useMemo(() => new THREE.Object3D(), []);
 
+  const { coreMaterial, glowMaterial, coreGeometry, glowGeometry, phases, flashes, time } = useMemo(() => {
+    const time = { value: 0 };
+    const phases = new THREE.InstancedBufferAttribute(new Float32Array(MAX_STARS), 1);
+    const flashes = new THREE.InstancedBufferAttribute(new Float32Array(MAX_STARS), 1);
+
+    const coreGeometry = new THREE.OctahedronGeometry(1.2, 0);
+    const glowGeometry = new THREE.SphereGeometry(1.8, 8, 8);
+    coreGeometry.setAttribute('aPhase', phases);
+    glowGeometry.setAttribute('aPhase', phases);
+    coreGeometry.setAttribute('aFlash', flashes);
+    glowGeometry.setAttribute('aFlash', flashes);
+
+    // White, so each star's instance colour comes through as is
+    const coreMaterial = new THREE.MeshStandardMaterial({
+      color: '#ffffff',
+      emissive: '#ffffff',
+      emissiveIntensity: 2,
+      toneMapped: false
+    });
+    const glowMaterial = new THREE.MeshBasicMaterial({
+      color: '#ffffff',
+      transparent: true,
+      opacity: 0.2,
+      depthWrite: false
+    });
+    addFloatAnimation(coreMaterial, time, true);
+    addFloatAnimation(glowMaterial, time, false);
+
+    return { coreMaterial, glowMaterial, coreGeometry, glowGeometry, phases, flashes, time };
+  }, []);
+
+  // The field may already have been drawn by an earlier mesh (e.g. before watching a replay)
+  useLayoutEffect(() => {
+    starField.markAllDirty();
+  }, [starField]);
+
   useFrame(({ clock }) => {
     if (!meshRef.current || !glowRef.current) return;
-    const time = clock.getElapsedTime();
-
-    // Update all instances
-    data.forEach((star, i) => {
-      if (collectedIds.has(star.id)) {
-        // Hide collected stars by scaling to 0
-        dummy.position.set(0, -1000, 0);
-        dummy.scale.set(0, 0, 0);
-      } else {
-        // Floating animation
-        const yOffset = Math.sin(time * 2 + i * 0.5) * 0.5;
-        dummy.position.set(star.position[0], star.position[1] + yOffset, star.position[2]);
-        dummy.rotation.set(0, time * 0.5 + i, 0);
-        dummy.scale.set(1, 1, 1);
-      }
+    time.value = clock.getElapsedTime();
+
+    const dirty = starField.consumeDirtySlots();
+    const count = starField.size;
+    meshRef.current.count = count;
+    glowRef.current.count = count;
+    if (dirty && dirty.size === 0) return;
+
+    const writeSlot = (i: number) => {
+      const star = starField.at(i);
+      dummy.position.set(star.position[0], star.position[1], star.position[2]);
+      dummy.scale.set(1, 1, 1);
       dummy.updateMatrix();
-
       meshRef.current!.setMatrixAt(i, dummy.matrix);
 
       // Glow mesh (slightly larger)
       dummy.scale.set(1.5, 1.5, 1.5);
       dummy.updateMatrix();
       glowRef.current!.setMatrixAt(i, dummy.matrix);
-    });
+
+      const color = STAR_COLORS[star.type];
+      meshRef.current!.setColorAt(i, color);
+      glowRef.current!.setColorAt(i, color);
+      flashes.setX(i, star.type === 'flash' ? 1 : 0);
+
+      // Stable per-star phase so swapping slots doesn't make stars jump
+      phases.setX(i, hashString(star.id) % 1000);
+    };
+
+    if (dirty) {
+      dirty.forEach(i => { if (i < count) writeSlot(i); });
+    } else {
+      for (let i = 0; i < count; i++) writeSlot(i);
+    }
 
     meshRef.current.instanceMatrix.needsUpdate = true;
     glowRef.current.instanceMatrix.needsUpdate = true;
+    if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
+    if (glowRef.current.instanceColor) glowRef.current.instanceColor.needsUpdate = true;
+    phases.needsUpdate = true;
+    flashes.needsUpdate = true;
   });
 
   return (
     <group>
       {/* Main Star Core */}
-      <instancedMesh ref={meshRef} args={[undefined, undefined, 2000]} count={data.length}>
-        <octahedronGeometry args={[1.2, 0]} />
-        <meshStandardMaterial
-          color="#ffd700"
-          emissive="#ffaa00"
-          emissiveIntensity={2}
-          toneMapped={false}
-        />
-      </instancedMesh>
+      <instancedMesh ref={meshRef} args={[coreGeometry, coreMaterial, MAX_STARS]} frustumCulled={false} />
       {/* Star Halo/Glow */}
-      <instancedMesh ref={glowRef} args={[undefined, undefined, 2000]} count={data.length}>
-        <sphereGeometry args={[1.8, 8, 8]} />
-        <meshBasicMaterial
-          color="#ffd700"
-          transparent
-          opacity={0.2}
-          depthWrite={false}
-        />
-      </instancedMesh>
+      <instancedMesh ref={glowRef} args={[glowGeometry, glowMaterial, MAX_STARS]} frustumCulled={false} />
     </group>
   );
 }
 
-const GameLoop: React.FC<{
-  isGameOver: boolean;
-  isLocked: boolean;
-  gameTimeRef: React.MutableRefObject<number>;
-  score: number;
-  playerPosRef: React.MutableRefObject<THREE.Vector3>;
-  setSentinels: React.Dispatch<React.SetStateAction<SentinelData[]>>;
-  isMobile?: boolean;
-  gameStarted: boolean;
-}> = ({ isGameOver, isLocked, gameTimeRef, score, playerPosRef, setSentinels, isMobile, gameStarted }) => {
-  const lastSpawnTime = useRef(0);
-
-  useFrame((state, delta) => {
-    if (isGameOver || !gameStarted) return;
-
-    // Only advance game time if active
-    if (isLocked) {
-      gameTimeRef.current += delta;
-    }
-
-    const time = gameTimeRef.current;
-    const now = state.clock.getElapsedTime();
-
-    // Difficulty Formulas
-    // Spawn Rate: Time-based (Starts 5s, drops to 1.0s slowly)
-    const spawnDelay = Math.max(1.0, 5.0 - (time * 0.02));
-
-    // Max Sentinels: Time-based (Slower growth: +1 every 25s)
-    const maxSentinels = 3 + Math.floor(time / 25);
-
-    // Sentinel Speed: HYBRID (Time + Score)
-    // Player Speed scales with score (Base 12 + Score*0.24)
-    // Sentinel Speed should be slightly faster than base player, but manageable
-    const sentinelSpeed = 12.0 + (time * 0.05) + (score * 0.2);
-
-    if (now - lastSpawnTime.current > spawnDelay) {
-      setSentinels(current => {
-        if (current.length >= maxSentinels) return current;
-
-        lastSpawnTime.current = now;
-
-        // Spawn logic
-        const angle = Math.random() * Math.PI * 2;
-        // Spawn further away to give reaction time (250-400 units)
-        const distance = 250 + Math.random() * 150;
-
-        const relativeHeight = (Math.random() - 0.5) * 100;
-        const spawnY = Math.max(10, playerPosRef.current.y + relativeHeight);
-
-        const spawnPos = playerPosRef.current.clone().add(new THREE.Vector3(
-          Math.cos(angle) * distance,
-          0,
-          Math.sin(angle) * distance
-        ));
-        spawnPos.y = spawnY;
-
-        const newSentinel: SentinelData = {
-          id: `sentinel_${Date.now()}_${Math.random()}`,
-          position: spawnPos,
-          speed: sentinelSpeed
-        };
-        return [...current, newSentinel];
-      });
-    }
-  });
-  return null;
+const BEAM_UP = new THREE.Vector3(0, 1, 0);
+
+// Body shape per archetype at the seeker's size; instances scale it by collision radius
+const createSentinelGeometry = (type: SentinelType): THREE.BufferGeometry => {
+  switch (type) {
+    case 'seeker': return new THREE.IcosahedronGeometry(1.5, 0);
+    case 'patroller': return new THREE.TorusGeometry(1.4, 0.35, 6, 12);
+    case 'drone': return new THREE.TetrahedronGeometry(1.5, 0);
+    case 'hunter': return new THREE.ConeGeometry(1, 2.5, 4);
+    case 'sniper': return new THREE.OctahedronGeometry(1.5, 0);
+    case 'heavy': return new THREE.DodecahedronGeometry(1.5, 0);
+  }
 };
 
-const SentinelManager: React.FC<{
-  sentinels: SentinelData[];
-  playerPosRef: React.MutableRefObject<THREE.Vector3>;
-  onGameOver: () => void;
-  isGameOver: boolean;
-  handleSentinelsDestroyed: (ids: string[]) => void;
-  handleExplosion: (pos: THREE.Vector3) => void;
-  onProximityUpdate: (dist: number) => void;
-  buildings: BuildingData[];
-}> = ({ sentinels, playerPosRef, onGameOver, isGameOver, handleSentinelsDestroyed, handleExplosion, onProximityUpdate, buildings }) => {
-  const sentinelMeshes = useRef<THREE.Group>(null);
-  const destructionPending = useRef(false); // Prevent spamming state updates
-  const lastProximityReport = useRef(0);
-
-  useFrame((state, delta) => {
-    if (isGameOver || !sentinelMeshes.current) return;
-
-    const playerPos = playerPosRef.current;
-    const dt = Math.min(delta, 0.05);
-    const children = sentinelMeshes.current.children;
-    const time = state.clock.getElapsedTime();
-
-    let minDistance = 1000;
-
-    // 1. Movement & Player Collision
-    children.forEach((child, i) => {
-      const mesh = child as THREE.Mesh;
-      const data = sentinels[i];
-      if (!data) return;
-
-      // Initialize Aggro state in userData if not present
-      if (mesh.userData.isAggressive === undefined) {
-        mesh.userData.isAggressive = false;
-        // Assign a random wander target
-        mesh.userData.wanderTarget = mesh.position.clone().add(new THREE.Vector3(
-           (Math.random() - 0.5) * 100,
-           (Math.random() - 0.5) * 50,
-           (Math.random() - 0.5) * 100
-        ));
-      }
-
-      const currentPos = mesh.position;
-      const dist = currentPos.distanceTo(playerPos);
-      if (dist < minDistance) minDistance = dist;
-
-      // --- Aggro Logic ---
-      // Detection Range: 150 units
-      if (!mesh.userData.isAggressive && dist < 150) {
-        mesh.userData.isAggressive = true;
-      }
+// Renders the simulation's sentinels, interpolated between ticks. Every instance is
+// rewritten from the sentinel store each frame, so sentinels spawning or dying
+// mid-frame can't leave a mesh showing the wrong one.
+const SentinelManager: React.FC<{ sim: GameSimulation }> = ({ sim }) => {
+  const bodyRefs = useRef<Partial<Record<SentinelType, THREE.InstancedMesh>>>({});
+  const coreRef = useRef<THREE.InstancedMesh>(null);
+  const beamRef = useRef<THREE.InstancedMesh>(null);
+  const fieldRef = useRef<THREE.InstancedMesh>(null);
+  const simulation = useSimulation();
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+  const scratch = useMemo(() => new THREE.Vector3(), []);
+  const beamDir = useMemo(() => new THREE.Vector3(), []);
+  const color = useMemo(() => new THREE.Color(), []);
+
+  const { bodies, bodyMaterial, coreGeometry, coreMaterial, beamGeometry, beamMaterial, fieldGeometry, fieldMaterial } = useMemo(() => ({
+    bodies: SENTINEL_TYPES.map(type => ({ type, geometry: createSentinelGeometry(type) })),
+    // Instance colour carries the archetype tint and the glow intensity
+    bodyMaterial: new THREE.MeshBasicMaterial({ wireframe: true, toneMapped: false }),
+    coreGeometry: new THREE.IcosahedronGeometry(0.8, 0),
+    coreMaterial: new THREE.MeshBasicMaterial({ color: '#ffffff' }),
+    beamGeometry: new THREE.CylinderGeometry(1, 1, 1, 6),
+    // Additive, so darker instance colours read as fainter beams
+    beamMaterial: new THREE.MeshBasicMaterial({ transparent: true, blending: THREE.AdditiveBlending, depthWrite: false, toneMapped: false }),
+    fieldGeometry: new THREE.SphereGeometry(HEAVY_FIELD_RADIUS, 16, 12),
+    // Grapple-dampening field
+    fieldMaterial: new THREE.MeshBasicMaterial({ color: SENTINEL_ARCHETYPES.heavy.color, wireframe: true, transparent: true, opacity: 0.06, depthWrite: false })
+  }), []);
+
+  useFrame((state) => {
+    const core = coreRef.current;
+    const beamMesh = beamRef.current;
+    const fieldMesh = fieldRef.current;
+    if (!core || !beamMesh || !fieldMesh) return;
 
-      const isAggro = mesh.userData.isAggressive;
-      let moveTarget = playerPos;
-      let effectiveSpeed = data.speed;
+    const time = state.clock.getElapsedTime();
+    const counts = Object.fromEntries(SENTINEL_TYPES.map(t => [t, 0])) as Record<SentinelType, number>;
+    let beams = 0;
+    let fields = 0;
 
-      if (isAggro) {
-        // --- CHASE BEHAVIOR ---
-        
-        // 1. Chase Speed: Slightly faster than normal difficulty
-        effectiveSpeed *= 1.1;
+    sim.sentinels.all.forEach((sentinel, i) => {
+      const body = bodyRefs.current[sentinel.type];
+      if (!body) return;
+      const archetype = SENTINEL_ARCHETYPES[sentinel.type];
+      // Stable per-sentinel offset so they don't all spin in lockstep
+      const phase = (hashString(sentinel.id) % 1000) / 1000 * Math.PI * 2;
 
-        // 2. DODGE WINDOW (Safety Net)
-        // If very close (< 40 units), slow down to give player a chance to escape
-        if (dist < 40) {
-          effectiveSpeed *= 0.4; 
-        }
+      dummy.position.lerpVectors(sentinel.prevPosition, sentinel.position, simulation.alpha);
+      dummy.scale.setScalar(archetype.radius / 2);
 
+      // Rotate sentinel
+      if (sentinel.type === 'hunter') {
+        // Nose points where it's heading
+        dummy.quaternion.identity();
+        if (sentinel.velocity.lengthSq() > 1e-6) dummy.quaternion.setFromUnitVectors(BEAM_UP, scratch.copy(sentinel.velocity).normalize());
+      } else if (sentinel.type === 'patroller') {
+        dummy.rotation.set(Math.PI / 2, 0, time * 4 + phase);
       } else {
-        // --- LAZY WANDER BEHAVIOR ---
-        effectiveSpeed *= 0.3; // Much slower
-        moveTarget = mesh.userData.wanderTarget;
-
-        // If reached wander target, pick a new one
-        if (currentPos.distanceTo(moveTarget) < 10) {
-             mesh.userData.wanderTarget = currentPos.clone().add(new THREE.Vector3(
-                (Math.random() - 0.5) * 100,
-                (Math.random() - 0.5) * 50,
-                (Math.random() - 0.5) * 100
-             ));
-        }
-      }
-
-      const dir = moveTarget.clone().sub(currentPos).normalize();
-      const moveStep = dir.clone().multiplyScalar(effectiveSpeed * dt);
-      const nextPos = currentPos.clone().add(moveStep);
-
-      // --- Building Collision (Sliding) ---
-      const sentinelRadius = 2.0;
-      let collisionNormal: THREE.Vector3 | null = null;
-
-      // Optimization: Only check buildings reasonably close to the sentinel
-      for (const b of buildings) {
-        // Broadphase check
-        if (Math.abs(nextPos.x - b.position[0]) > b.scale[0] / 2 + sentinelRadius + 4) continue;
-        if (Math.abs(nextPos.z - b.position[2]) > b.scale[2] / 2 + sentinelRadius + 4) continue;
-        if (Math.abs(nextPos.y - b.position[1]) > b.scale[1] / 2 + sentinelRadius + 4) continue;
-
-        // AABB Intersection
-        const minX = b.position[0] - b.scale[0] / 2 - sentinelRadius;
-        const maxX = b.position[0] + b.scale[0] / 2 + sentinelRadius;
-        const minY = b.position[1] - b.scale[1] / 2 - sentinelRadius;
-        const maxY = b.position[1] + b.scale[1] / 2 + sentinelRadius;
-        const minZ = b.position[2] - b.scale[2] / 2 - sentinelRadius;
-        const maxZ = b.position[2] + b.scale[2] / 2 + sentinelRadius;
-
-        if (nextPos.x > minX && nextPos.x < maxX &&
-          nextPos.y > minY && nextPos.y < maxY &&
-          nextPos.z > minZ && nextPos.z < maxZ) {
-
-          // Determine approximate collision normal
-          const distMinX = Math.abs(nextPos.x - minX);
-          const distMaxX = Math.abs(nextPos.x - maxX);
-          const distMinZ = Math.abs(nextPos.z - minZ);
-          const distMaxZ = Math.abs(nextPos.z - maxZ);
-          const distMinY = Math.abs(nextPos.y - minY);
-          const distMaxY = Math.abs(nextPos.y - maxY);
-
-          const min = Math.min(distMinX, distMaxX, distMinZ, distMaxZ, distMinY, distMaxY);
-
-          collisionNormal = new THREE.Vector3();
-          if (min === distMinX) collisionNormal.set(-1, 0, 0);
-          else if (min === distMaxX) collisionNormal.set(1, 0, 0);
-          else if (min === distMinZ) collisionNormal.set(0, 0, -1);
-          else if (min === distMaxZ) collisionNormal.set(0, 0, 1);
-          else if (min === distMinY) collisionNormal.set(0, -1, 0);
-          else if (min === distMaxY) collisionNormal.set(0, 1, 0);
-
-          break; // Handle first collision
-        }
+        const spin = sentinel.type === 'drone' ? 3 : sentinel.type === 'heavy' ? 0.4 : 1;
+        dummy.rotation.set(time * 2 * spin + phase, time * 3 * spin + phase, 0);
       }
-
-      if (collisionNormal) {
-        // Slide along wall: Project velocity onto plane perpendicular to normal
-        const vDotN = moveStep.dot(collisionNormal);
-        moveStep.sub(collisionNormal.multiplyScalar(vDotN));
-
-        // Bias upwards slightly to help them climb over buildings
-        moveStep.y += dt * 10;
-      }
-
-      mesh.position.add(moveStep);
-
-      // Rotate sentinel
-      mesh.rotation.x += dt * 2;
-      mesh.rotation.y += dt * 3;
+      dummy.updateMatrix();
+      body.setMatrixAt(counts[sentinel.type], dummy.matrix);
+      core.setMatrixAt(i, dummy.matrix);
 
       // --- Visual Warning (Pulse) ---
-      const mat = mesh.material as THREE.MeshStandardMaterial;
-      if (mat) {
-        if (isAggro) {
-          // AGGRO VISUALS: Hyper Pulse
-          const pulseSpeed = 25; 
-          const pulse = (Math.sin(time * pulseSpeed) + 1) / 2;
-          mat.emissiveIntensity = 5 + (pulse * 10); 
-          // White hot center, red edge
-          mat.emissive.setHex(pulse > 0.5 ? 0xffffff : 0xff0000);
-          mat.color.setHex(0xffffff); // Body turns white
-        } else {
-          // PASSIVE WANDER STATE
-          mat.emissiveIntensity = 2 + Math.sin(time * 2); // Slow breathe
-          mat.emissive.setHex(0xaa0000); // Dimmer red
-          mat.color.setHex(0x330000); // Dark body
-        }
+      if (sentinel.stunTimer > 0) {
+        // STUNNED: dark, with the odd spark
+        color.set(archetype.color).multiplyScalar(Math.sin(time * 40 + phase) > 0.9 ? 3 : 0.2);
+      } else if (sentinel.awareness === 'chase') {
+        // AGGRO VISUALS: Hyper Pulse, white hot and archetype-coloured in turn
+        const pulse = (Math.sin(time * 25) + 1) / 2;
+        color.set(pulse > 0.5 ? '#ffffff' : archetype.color).multiplyScalar(5 + pulse * 10);
+      } else if (sentinel.awareness === 'search') {
+        // SEARCHING: uneasy flicker
+        const pulse = (Math.sin(time * 8) + 1) / 2;
+        color.set(archetype.color).multiplyScalar(3 + pulse * 4);
+      } else {
+        // PASSIVE WANDER STATE: dim, slow breathe
+        color.set(archetype.color).multiplyScalar(0.66 * (2 + Math.sin(time * 2)));
       }
-
-      // Kill Collision
-      if (dist < 2.0) {
-        onGameOver();
+      body.setColorAt(counts[sentinel.type]++, color);
+
+      // Sniper beam: faint while tracking, hot once locked, full blast for a moment after firing
+      const beam = sentinel.beam;
+      const firing = beam !== null && beam.phase === 'cooldown' && beam.fired && beam.timer < 0.2;
+      if (beam && (beam.phase === 'charging' || firing)) {
+        const origin = scratch.copy(dummy.position);
+        const dir = beamDir.subVectors(beam.target, origin);
+        // Runs on past the aim point so it reads as a line of fire, not a tether
+        const length = dir.length() + 60;
+        dir.normalize();
+        const locked = beam.phase === 'charging' && beam.timer >= SNIPER_LOCK_TIME;
+        const width = firing ? 0.8 : locked ? 0.15 : 0.05;
+        dummy.quaternion.setFromUnitVectors(BEAM_UP, dir);
+        dummy.position.copy(origin).addScaledVector(dir, length / 2);
+        dummy.scale.set(width, length, width);
+        dummy.updateMatrix();
+        beamMesh.setMatrixAt(beams, dummy.matrix);
+        const opacity = firing ? 1 : locked ? 0.5 + 0.5 * Math.sin(time * 60) : 0.15 + 0.35 * (beam.timer / SNIPER_LOCK_TIME);
+        color.set(locked || firing ? '#ffffff' : archetype.color).multiplyScalar(opacity);
+        beamMesh.setColorAt(beams++, color);
+        dummy.position.copy(origin);
       }
-    });
 
-    // Update Sentinel Audio Intensity
-    audioService.updateSentinelDrone(minDistance);
-
-    // Throttle proximity updates to UI (10Hz)
-    if (time - lastProximityReport.current > 0.1) {
-      onProximityUpdate(minDistance);
-      lastProximityReport.current = time;
-    }
-
-    // 2. Sentinel-Sentinel Collision (Destruction)
-    if (!destructionPending.current) {
-      const deadIds = new Set<string>();
-
-      for (let i = 0; i < children.length; i++) {
-        const s1 = children[i];
-        const id1 = sentinels[i]?.id;
-        if (!id1 || deadIds.has(id1)) continue;
-
-        for (let j = i + 1; j < children.length; j++) {
-          const s2 = children[j];
-          const id2 = sentinels[j]?.id;
-          if (!id2 || deadIds.has(id2)) continue;
-
-          const dist = s1.position.distanceTo(s2.position);
-
-          if (dist < 3.0) {
-            deadIds.add(id1);
-            deadIds.add(id2);
-            // Trigger Explosion at midpoint
-            const midPoint = s1.position.clone().add(s2.position).multiplyScalar(0.5);
-            handleExplosion(midPoint);
-          }
-        }
+      if (sentinel.type === 'heavy') {
+        dummy.quaternion.identity();
+        dummy.scale.setScalar(1);
+        dummy.updateMatrix();
+        fieldMesh.setMatrixAt(fields++, dummy.matrix);
       }
+    });
 
-      if (deadIds.size > 0) {
-        destructionPending.current = true;
-        handleSentinelsDestroyed(Array.from(deadIds));
-        // Reset flag after a short delay to allow React to process the update
-        setTimeout(() => { destructionPending.current = false; }, 100);
-      }
-    }
+    const meshes: [THREE.InstancedMesh, number][] = [
+      ...bodies.map(({ type }) => [bodyRefs.current[type], counts[type]] as [THREE.InstancedMesh, number]),
+      [core, sim.sentinels.size],
+      [beamMesh, beams],
+      [fieldMesh, fields]
+    ];
+    meshes.forEach(([mesh, count]) => {
+      if (!mesh) return;
+      mesh.count = count;
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    });
   });
 
   return (
-    <group ref={sentinelMeshes}>
-      {sentinels.map((s) => (
-        <mesh key={s.id} position={s.position}>
-          <icosahedronGeometry args={[1.5, 0]} />
-          <meshStandardMaterial
-            color="#ff0033"
-            emissive="#ff0000"
-            emissiveIntensity={3}
-            wireframe
-          />
-          <mesh>
-            <icosahedronGeometry args={[0.8, 0]} />
-            <meshBasicMaterial color="#ffffff" />
-          </mesh>
-        </mesh>
+    <group>
+      {bodies.map(({ type, geometry }) => (
+        <instancedMesh
+          key={type}
+          ref={(mesh) => { if (mesh) bodyRefs.current[type] = mesh; }}
+          args={[geometry, bodyMaterial, MAX_SENTINELS]}
+          frustumCulled={false}
+        />
       ))}
+      <instancedMesh ref={coreRef} args={[coreGeometry, coreMaterial, MAX_SENTINELS]} frustumCulled={false} />
+      <instancedMesh ref={beamRef} args={[beamGeometry, beamMaterial, MAX_SENTINELS]} frustumCulled={false} />
+      <instancedMesh ref={fieldRef} args={[fieldGeometry, fieldMaterial, MAX_SENTINELS]} frustumCulled={false} />
     </group>
   )
 };
 
+// Steps a replay through its own simulation on the fixed tick; the player publishes what it plays
+const ReplayDriver: React.FC<{ player: ReplayPlayer }> = ({ player }) => {
+  useFixedStep(() => {
+    player.update();
+  }, TickPriority.Player);
+  return null;
+};
+
 const GameScene: React.FC<GameSceneProps> = ({
-  onWispPositionUpdate,
-  onCollectStar,
   isLocked,
   setIsLocked,
   score,
   isGameOver,
-  onGameOver,
   onRestart,
   wispColor,
-  onProximityUpdate,
+  difficulty,
+  mode,
+  course,
+  quitRequested,
   mobileInput,
   isMobile,
-  gameStarted
+  gameStarted,
+  seed,
+  district,
+  replayPlayer,
+  replayCamera = 'follow',
+  ghost
 }) => {
-  const [collectedStars, setCollectedStars] = useState<Set<string>>(new Set());
-  const [sentinels, setSentinels] = useState<SentinelData[]>([]);
-  const [stars, setStars] = useState<StarData[]>([]);
   const [explosions, setExplosions] = useState<ExplosionData[]>([]);
-
-  const playerPosRef = useRef<THREE.Vector3>(new THREE.Vector3(0, 30, 0));
-  const gameTimeRef = useRef(0); // Track active gameplay time in seconds
+  const [empPulses, setEmpPulses] = useState<ExplosionData[]>([]);
+  const districtRef = useRef(district);
 
   // Memoize lock handlers
   const handleLock = useCallback(() => {
@@ -482,119 +489,37 @@ const GameScene: React.FC<GameSceneProps> = ({
     if (!isMobile) setIsLocked(false);
   }, [setIsLocked, isMobile]);
 
-  // Reset Game State
+  // Pause action: releasing the pointer goes through handleUnlock like Escape does
+  const handlePause = useCallback(() => {
+    if (!isMobile) document.exitPointerLock();
+  }, [isMobile]);
+
+  // The whole run (wisp, streamed city, stars, sentinels) is one headless simulation
+  // stepped with the recorded input, so every run can be replayed exactly.
+  const sim = useMemo(() => {
+    const run = new GameSimulation(seed, difficulty, mode, course);
+    run.bus = gameplayBus;
+    return run;
+  }, [seed, difficulty, mode, course]);
+  const recorder = useMemo(() => new ReplayRecorder(), []);
+  // What's on screen: the live run, or the replay being watched
+  const viewSim = replayPlayer ? replayPlayer.sim : sim;
+  const viewKey = replayPlayer ? 'replay' : 'live';
+
+  // Reset Game State (also runs when a new seed rebuilds the city)
   useEffect(() => {
     if (!isGameOver && score === 0) {
-      setCollectedStars(new Set());
-      setSentinels([]);
       setExplosions([]);
-      gameTimeRef.current = 0;
-      // Stars will regenerate via the star spawn logic below
-    }
-  }, [isGameOver, score]);
-
-  // Stop Drone on Game Over
-  useEffect(() => {
-    if (isGameOver) {
-      audioService.stopSentinelDrone();
-    }
-  }, [isGameOver]);
-
-  // Generate City Data
-  const buildings = useMemo(() => {
-    const count = 1500;
-    const range = 4000;
-    const temp: BuildingData[] = [];
-
-    const isValidPosition = (x: number, z: number, w: number, d: number) => {
-      for (const b of temp) {
-        const dx = Math.abs(x - b.position[0]);
-        const dz = Math.abs(z - b.position[2]);
-        if (dx < (w + b.scale[0]) / 2 + 10 && dz < (d + b.scale[2]) / 2 + 10) {
-          return false;
-        }
-      }
-      return true;
-    };
-
-    for (let i = 0; i < count; i++) {
-      let x, z, width, depth;
-      let attempts = 0;
-
-      do {
-        x = (Math.random() - 0.5) * range;
-        z = (Math.random() - 0.5) * range;
-        if (Math.abs(x) < 50 && Math.abs(z) < 50) {
-          x = 100;
-        }
-        width = 30 + Math.random() * 40;
-        depth = 30 + Math.random() * 40;
-        attempts++;
-      } while (!isValidPosition(x, z, width, depth) && attempts < 10);
-
-      if (attempts >= 10) continue;
-
-      const height = 60 + Math.random() * 250;
-
-      temp.push({
-        position: [x, height / 2, z],
-        scale: [width, height, depth],
-        color: '#404050',
-        id: `b_${i}`
-      });
+      setEmpPulses([]);
+      sim.reset();
+      recorder.reset();
+      gameplayBus.publish({ type: 'runStarted', mode: sim.mode, status: sim.getRunStatus() });
     }
-    return temp;
-  }, []);
-
-  // Helper to generate a single star
-  const generateStar = useCallback((idSuffix: string | number): StarData | null => {
-    if (buildings.length === 0) return null;
-    const randomB = buildings[Math.floor(Math.random() * buildings.length)];
-    const x = randomB.position[0] + (Math.random() - 0.5) * randomB.scale[0] * 1.2;
-    const z = randomB.position[2] + (Math.random() - 0.5) * randomB.scale[2] * 1.2;
-    const y = randomB.position[1] * 2 + 1.5;
-
-    return {
-      id: `star_${idSuffix}`,
-      position: [x, y, z],
-      collected: false
-    };
-  }, [buildings]);
-
-  // Initial Star Generation
-  useEffect(() => {
-    if (buildings.length > 0 && stars.length === 0) {
-      const temp: StarData[] = [];
-      for (let i = 0; i < 1000; i++) {
-        const s = generateStar(i);
-        if (s) temp.push(s);
-      }
-      setStars(temp);
-    }
-  }, [buildings, generateStar]);
-
-  // Continuous Star Spawning (Replenish world)
-  useEffect(() => {
-    if (isGameOver) return;
-    const interval = setInterval(() => {
-      setStars(current => {
-        if (current.length >= 1200) return current; // Cap stars
-        const newStar = generateStar(Date.now());
-        return newStar ? [...current, newStar] : current;
-      });
-    }, 200); // Spawn a star every 200ms if below cap
-    return () => clearInterval(interval);
-  }, [generateStar, isGameOver]);
-
-
-  const handleSentinelsDestroyed = useCallback((idsToDestroy: string[]) => {
-    setSentinels(prev => prev.filter(s => !idsToDestroy.includes(s.id)));
-  }, []);
+  }, [isGameOver, score, sim, recorder]);
 
   const handleExplosion = useCallback((position: THREE.Vector3) => {
     const id = Date.now().toString() + Math.random();
     setExplosions(prev => [...prev, { id, position }]);
-    audioService.playExplosion();
 
     // Cleanup explosion visual after 1 second
     setTimeout(() => {
@@ -602,26 +527,83 @@ const GameScene: React.FC<GameSceneProps> = ({
     }, 1000);
   }, []);
 
+  const handleEmpPulse = useCallback((position: THREE.Vector3) => {
+    const id = Date.now().toString() + Math.random();
+    setEmpPulses(prev => [...prev, { id, position }]);
+    setTimeout(() => {
+      setEmpPulses(prev => prev.filter(e => e.id !== id));
+    }, 500);
+  }, []);
 
-  const handleStarCollected = useCallback((id: string) => {
-    setCollectedStars(prev => {
-      if (prev.has(id)) return prev;
-      const newSet = new Set(prev);
-      newSet.add(id);
-      return newSet;
+  // Blasts from the live run and from a replay alike; only one of them steps at a time
+  useEffect(() => {
+    const unsubscribe = [gameplayBus, replayBus].flatMap(bus => [
+      bus.on('sentinelCrash', event => handleExplosion(event.position)),
+      bus.on('sentinelDestroyed', event => handleExplosion(event.position)),
+      bus.on('empPulse', event => handleEmpPulse(event.position))
+    ]);
+    return () => unsubscribe.forEach(off => off());
+  }, [handleExplosion, handleEmpPulse]);
+
+  // Report how the run ended; App turns this into a run record
+  const reportGameOver = useCallback(() => {
+    sim.settle();
+    const info: GameOverInfo = {
+      cause: sim.endCause ?? 'sentinel',
+      survivalTime: sim.time,
+      styleScore: sim.style.score,
+      district: districtRef.current,
+      race: sim.race ? getRaceResult(sim.race) : undefined
+    };
+    const { race, ...meta } = info;
+    const replay = recorder.finish({
+      ...meta,
+      seed,
+      wispColor,
+      mode: sim.mode.id,
+      course: sim.courseId,
+      difficulty: sim.difficulty,
+      score: sim.score,
+      date: new Date().toISOString()
     });
-    audioService.playCollect();
-    onCollectStar();
-  }, [onCollectStar]);
+    gameplayBus.publish({ type: 'gameOver', info, replay });
+  }, [sim, recorder, seed, wispColor]);
+
+  useEffect(() => {
+    if (!quitRequested || sim.over || replayPlayer) return;
+    sim.end('quit');
+    reportGameOver();
+  }, [quitRequested, sim, replayPlayer, reportGameOver]);
+
+  // Live play: record the input, then advance the run with exactly what was recorded.
+  // The sim publishes the tick's events itself.
+  const handleInput = useCallback((input: WispInput) => {
+    if (sim.over) return;
+    sim.step(recorder.record(input));
+    if (sim.tick % STATUS_REPORT_TICKS === 0) {
+      gameplayBus.publish({ type: 'status', status: sim.getRunStatus() });
+    }
+
+    const pos = sim.wisp.position;
+    gameplayBus.publish({ type: 'wispMoved', position: pos });
+    const current = sim.city.districtAt(pos.x, pos.z).id;
+    if (current !== districtRef.current) {
+      districtRef.current = current;
+      gameplayBus.publish({ type: 'districtChanged', district: current });
+    }
 
-  const handleWispUpdateWithRef = useCallback((pos: THREE.Vector3) => {
-    playerPosRef.current.copy(pos);
-    onWispPositionUpdate(pos);
-  }, [onWispPositionUpdate]);
+    if (sim.over) reportGameOver();
+  }, [sim, recorder, reportGameOver]);
+
+  // Free replay camera orbits from wherever the wisp was when it was switched on
+  const orbitTarget = useMemo(
+    () => (replayCamera === 'free' ? viewSim.wisp.position.clone() : null),
+    [replayCamera, viewSim]
+  );
 
   return (
-    <div className="w-full h-full" onContextMenu={(e) => e.preventDefault()}>
-      <MusicSystem score={score} isLocked={isLocked} isGameOver={isGameOver} />
+    <div id={VIEWPORT_ID} className="w-full h-full" onContextMenu={(e) => e.preventDefault()}>
+      <MusicSystem isLocked={isLocked} />
       
       {/* Mobile Controls Overlay */}
       {isMobile && !isGameOver && gameStarted && mobileInput && (
@@ -631,7 +613,8 @@ const GameScene: React.FC<GameSceneProps> = ({
       <Canvas shadows gl={{ antialias: false, powerPreference: "high-performance" }}>
         <color attach="background" args={['#020203']} />
         <Stars radius={20000} depth={100} count={15000} factor={6} saturation={0} fade speed={1} />
-        <fog attach="fog" args={['#0a0a12', 50, 4000]} />
+        {/* Fully fogged before the edge of the streamed chunks */}
+        <fog attach="fog" args={['#0a0a12', 50, 1600]} />
 
         <ambientLight intensity={3.0} color="#505070" />
         <hemisphereLight args={['#88ccff', '#445566', 2.5]} />
@@ -644,56 +627,62 @@ const GameScene: React.FC<GameSceneProps> = ({
           shadow-mapSize={[2048, 2048]}
         />
 
-        {/* Only use PointerLock on Desktop when Game Started */}
-        {!isMobile && gameStarted && (
+        {/* Only use PointerLock on Desktop when Game Started (never while watching a replay) */}
+        {!isMobile && gameStarted && !replayPlayer && (
           <PointerLockControls
+            // Only clicks on the scene itself resume, not clicks on HUD panels
+            selector={`#${VIEWPORT_ID}`}
             onLock={handleLock}
             onUnlock={handleUnlock}
           />
         )}
 
-        <GameLoop
-          isGameOver={isGameOver}
-          isLocked={isLocked}
-          gameTimeRef={gameTimeRef}
-          score={score}
-          playerPosRef={playerPosRef}
-          setSentinels={setSentinels}
-          isMobile={isMobile}
-          gameStarted={gameStarted}
-        />
-
-        <ProceduralCity buildings={buildings} />
-        <CollectibleStars data={stars} collectedIds={collectedStars} />
-        <SentinelManager
-          sentinels={sentinels}
-          playerPosRef={playerPosRef}
-          onGameOver={onGameOver}
-          isGameOver={isGameOver}
-          handleSentinelsDestroyed={handleSentinelsDestroyed}
-          handleExplosion={handleExplosion}
-          onProximityUpdate={onProximityUpdate}
-          buildings={buildings}
-        />
-
-        {explosions.map(e => (
-          <ExplosionEffect key={e.id} position={e.position} />
-        ))}
-
-        {!isGameOver && (
-          <Wisp
-            onUpdatePosition={handleWispUpdateWithRef}
-            buildings={buildings}
-            stars={stars}
-            collectedStars={collectedStars}
-            onCollectStar={handleStarCollected}
-            isLocked={isLocked}
-            score={score}
-            baseColor={wispColor}
-            mobileInput={mobileInput}
-            isTitleScreen={!gameStarted}
-          />
-        )}
+        {orbitTarget && <OrbitControls target={orbitTarget} />}
+
+        <SimulationLoop>
+          {replayPlayer && <ReplayDriver player={replayPlayer} />}
+
+          <ProceduralCity key={`city-${viewKey}`} city={viewSim.city} />
+          <CollectibleStars key={`stars-${viewKey}`} starField={viewSim.starField} />
+          <SentinelManager key={`sentinels-${viewKey}`} sim={viewSim} />
+
+          <LureMarker key={`lure-${viewKey}`} sim={viewSim} />
+          {viewSim.course && <RaceCourseView key={`race-${viewKey}`} sim={viewSim} course={viewSim.course} />}
+
+          {explosions.map(e => (
+            <ExplosionEffect key={e.id} position={e.position} />
+          ))}
+          {empPulses.map(e => (
+            <EmpPulseEffect key={e.id} position={e.position} />
+          ))}
+
+          {ghost && gameStarted && !isGameOver && !replayPlayer && (
+            <GhostWisp key={`ghost-${ghost.date}`} ghost={ghost} sim={sim} />
+          )}
+
+          {replayPlayer ? (
+            <Wisp
+              key="wisp-replay"
+              sim={replayPlayer.sim}
+              isLocked={false}
+              score={replayPlayer.replay.score}
+              baseColor={replayPlayer.replay.wispColor}
+              replayCamera={replayCamera}
+            />
+          ) : !isGameOver && (
+            <Wisp
+              key="wisp-live"
+              sim={sim}
+              isLocked={isLocked}
+              score={score}
+              baseColor={wispColor}
+              mobileInput={mobileInput}
+              isTitleScreen={!gameStarted}
+              onInput={handleInput}
+              onPause={handlePause}
+            />
+          )}
+        </SimulationLoop>
 
         <EffectComposer enableNormalPass={false}>
           <Bloom luminanceThreshold={0.7} mipmapBlur intensity={1.2} radius={0.6} />
@@ -0,0 +1,44 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Color, Group } from 'three';
+import { Trail } from '@react-three/drei';
+import { useSimulation } from './SimulationLoop';
+import { FIXED_DT } from '../simulation/fixedStep';
+import { GameSimulation } from '../simulation/gameSimulation';
+import { GhostPath, sampleGhost } from '../simulation/ghost';
+import { PLAYER_RADIUS } from '../simulation/wispPhysics';
+
+interface GhostWispProps {
+  ghost: GhostPath;
+  // The live run the ghost keeps pace with
+  sim: GameSimulation;
+}
+
+// Translucent replay of a past path. Purely visual: it never enters the simulation.
+const GhostWisp: React.FC<GhostWispProps> = ({ ghost, sim }) => {
+  const groupRef = useRef<Group>(null);
+  const simulation = useSimulation();
+
+  useFrame(() => {
+    if (!groupRef.current) return;
+    // Same moment the live wisp is interpolated to (between the last two ticks)
+    const time = Math.max(0, sim.time - FIXED_DT * (1 - simulation.alpha));
+    groupRef.current.visible = sampleGhost(ghost, time, groupRef.current.position);
+  });
+
+  const color = new Color(ghost.wispColor);
+
+  return (
+    <group ref={groupRef} position={[0, 30, 0]}>
+      <mesh>
+        <sphereGeometry args={[PLAYER_RADIUS, 16, 16]} />
+        <meshBasicMaterial color={color} transparent opacity={0.35} depthWrite={false} toneMapped={false} />
+      </mesh>
+      <Trail width={1.2} length={8} color={color} attenuation={(t) => t * t * 0.4}>
+        <mesh visible={false}><sphereGeometry args={[0.1]} /></mesh>
+      </Trail>
+    </group>
+  );
+};
+
+export default GhostWisp;
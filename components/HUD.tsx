@@ -1,14 +1,101 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { DISTRICTS, DistrictId } from '../simulation/districts';
+import { Difficulty } from '../simulation/difficulty';
+import { GameMode, HudWidget } from '../simulation/gameModes';
+import { RunEndCause, RunRecord } from '../types';
+import { GhostStatus } from '../simulation/ghost';
+import { RunStatus } from '../simulation/gameSimulation';
+import { TRICK_LABELS, Trick } from '../simulation/style';
+import { CourseBest } from '../services/raceService';
+import { gameplayBus } from '../services/gameplayBus';
+import { ABILITIES, ABILITY_IDS } from '../simulation/abilities';
+import RunHistoryPanel, { formatDifficulty, formatDuration, formatRaceTime } from './RunHistoryPanel';
+import ControlsPanel from './ControlsPanel';
+import { describeAction, getControlHints, useInputProfile } from '../services/inputService';
 
 interface HUDProps {
   score: number;
   isLocked: boolean;
   isGameOver: boolean;
   onRestart: (color: string) => void;
-  sentinelProximity: number;
+  mode: GameMode;
+  // Race mode: the course bests to beat
+  courseBest: CourseBest | null;
+  // Ends the run from the pause screen
+  onEndRun: () => void;
+  seed: number;
+  difficulty: Difficulty;
+  district: DistrictId;
+  runs: RunRecord[];
+  lastRunId: string | null;
+  onWatchReplay?: () => void;
+  onExportReplay?: () => void;
+  // Pace against this city's ghost (null when there is none)
+  ghostStatus: GhostStatus | null;
+  onExportGhost: () => void;
 }
 
-const HUD: React.FC<HUDProps> = ({ score, isLocked, isGameOver, onRestart, sentinelProximity }) => {
+interface TrickCallout {
+  id: number;
+  trick: Trick;
+}
+
+// How long a trick callout stays up, and how many stack at once
+const CALLOUT_MS = 1500;
+const MAX_CALLOUTS = 4;
+
+// Until the first status report of a run
+const idleStatus = (difficulty: Difficulty): RunStatus => ({
+  abilities: { energy: 0, cooldowns: { emp: 0, lure: 0 } },
+  shield: { charges: difficulty.shield.maxCharges, maxCharges: difficulty.shield.maxCharges },
+  time: 0,
+  race: null,
+  style: { score: 0, multiplier: 1, comboLeft: 0 },
+  proximity: 1000,
+  alert: 'hidden'
+});
+
+// "WALL CHAIN x3", "LONG SWING 2.4s"
+const formatTrick = ({ trick, count }: Trick) => {
+  if (trick === 'wallChain' || trick === 'airStars') return `${TRICK_LABELS[trick]} x${count}`;
+  if (trick === 'longSwing') return `${TRICK_LABELS[trick]} ${count.toFixed(1)}s`;
+  return TRICK_LABELS[trick];
+};
+
+const END_TITLES: Record<RunEndCause, { title: string; subtitle: string }> = {
+  sentinel: { title: 'SIGNAL LOST', subtitle: 'WISP CONTAINMENT BREACHED' },
+  sniperBeam: { title: 'SIGNAL LOST', subtitle: 'WISP CONTAINMENT BREACHED' },
+  cleared: { title: 'TARGET REACHED', subtitle: 'ALL STARS COLLECTED' },
+  timeUp: { title: 'TIME UP', subtitle: 'THE CLOCK RAN OUT' },
+  quit: { title: 'LINK CLOSED', subtitle: 'RUN ENDED' }
+};
+
+const HUD: React.FC<HUDProps> = ({ score, isLocked, isGameOver, onRestart, mode, courseBest, onEndRun, seed, difficulty, district, runs, lastRunId, onWatchReplay, onExportReplay, ghostStatus, onExportGhost }) => {
+  // Shield, energy, clock, race, style and threat, as the live run reports them
+  const [status, setStatus] = useState(() => idleStatus(difficulty));
+  // Recent tricks, oldest first
+  const [callouts, setCallouts] = useState<TrickCallout[]>([]);
+  const nextCalloutId = useRef(0);
+  const { abilities, shield, race, style, alert: sentinelAlert } = status;
+
+  useEffect(() => {
+    const unsubscribe = [
+      gameplayBus.on('runStarted', event => {
+        setStatus(event.status);
+        setCallouts([]);
+      }),
+      gameplayBus.on('status', event => setStatus(event.status)),
+      gameplayBus.on('trick', ({ type, ...trick }) => {
+        const id = nextCalloutId.current++;
+        setCallouts(prev => [...prev, { id, trick }].slice(-MAX_CALLOUTS));
+        setTimeout(() => {
+          setCallouts(prev => prev.filter(c => c.id !== id));
+        }, CALLOUT_MS);
+      })
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, []);
+
   const colors = [
     { name: 'CYAN', value: '#00ffff', ring: 'ring-cyan-400' },
     { name: 'MAGENTA', value: '#ff00ff', ring: 'ring-fuchsia-400' },
@@ -18,8 +105,21 @@ const HUD: React.FC<HUDProps> = ({ score, isLocked, isGameOver, onRestart, senti
     { name: 'WHITE', value: '#ffffff', ring: 'ring-white' },
   ];
 
+  const shows = (widget: HudWidget) => mode.hud.includes(widget);
+
   // Calculate warning opacity (starts at 150 units, max at 20)
-  const warningOpacity = Math.max(0, Math.min(1, 1 - ((sentinelProximity - 20) / 130)));
+  const warningOpacity = shows('threat') ? Math.max(0, Math.min(1, 1 - ((status.proximity - 20) / 130))) : 0;
+  const clock = mode.timeLimit === null ? status.time : Math.max(0, mode.timeLimit - status.time);
+  // Latest split against the same ring on the best lap
+  const bestSplit = race?.lastSplit ? courseBest?.splits[race.lastSplit.index - 1] : undefined;
+  const splitDelta = race?.lastSplit && bestSplit !== undefined ? race.lastSplit.time - bestSplit : null;
+  const lastRun = runs.find(r => r.id === lastRunId);
+  const ending = END_TITLES[lastRun?.cause ?? 'sentinel'];
+
+  const currentDistrict = DISTRICTS[district];
+
+  const inputProfile = useInputProfile();
+  const [showControls, setShowControls] = useState(false);
 
   return (
     <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-6 z-10">
@@ -43,6 +143,18 @@ const HUD: React.FC<HUDProps> = ({ score, isLocked, isGameOver, onRestart, senti
         </div>
       )}
 
+      {/* Trick Callouts */}
+      {isLocked && !isGameOver && shows('style') && callouts.length > 0 && (
+        <div className="absolute top-[58%] left-1/2 transform -translate-x-1/2 flex flex-col items-center gap-1 pointer-events-none z-20 font-mono">
+            {callouts.map(({ id, trick }) => (
+                <p key={id} className="text-fuchsia-300 text-sm font-bold tracking-[0.2em] drop-shadow-[0_0_8px_rgba(255,0,255,0.8)]">
+                    {formatTrick(trick)} <span className="text-white">+{trick.points}</span>
+                    {trick.multiplier > 1 && <span className="text-fuchsia-500 text-xs ml-2">x{trick.multiplier.toFixed(1)}</span>}
+                </p>
+            ))}
+        </div>
+      )}
+
       {/* Critical Warning Text */}
       {!isGameOver && warningOpacity > 0.6 && (
          <div className="absolute top-1/4 left-1/2 transform -translate-x-1/2 z-20">
@@ -54,17 +166,39 @@ const HUD: React.FC<HUDProps> = ({ score, isLocked, isGameOver, onRestart, senti
 
       {/* Game Over / Color Selector Screen */}
       {isGameOver && (
-        <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-md z-50 pointer-events-auto">
+        <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-md z-50 pointer-events-auto overflow-y-auto">
            <div className="text-center p-10 max-w-2xl w-full">
-              <h2 className="text-5xl font-bold text-white mb-2 tracking-[0.2em] drop-shadow-[0_0_10px_rgba(255,255,255,0.5)]">SIGNAL LOST</h2>
-              <p className="text-gray-400 font-mono mb-8 text-sm tracking-widest">WISP CONTAINMENT BREACHED</p>
+              <h2 className="text-5xl font-bold text-white mb-2 tracking-[0.2em] drop-shadow-[0_0_10px_rgba(255,255,255,0.5)]">{ending.title}</h2>
+              <p className="text-gray-400 font-mono mb-8 text-sm tracking-widest">{ending.subtitle}</p>
               
               <div className="mb-10 border-y border-gray-800 py-6 bg-white/5">
                 <p className="text-gray-500 text-xs tracking-widest mb-1">DATA UPLOADED</p>
                 <p className="text-6xl text-transparent bg-clip-text bg-gradient-to-b from-white to-gray-400 font-bold font-mono">{score}</p>
                 <p className="text-gray-500 text-xs tracking-widest mt-1">STARS</p>
+                <p className="text-fuchsia-300 text-lg font-bold font-mono mt-3">{lastRun?.styleScore ?? style.score} <span className="text-gray-500 text-xs tracking-widest">STYLE</span></p>
+                <p className="text-gray-600 text-[10px] font-mono tracking-widest mt-4 select-text">CITY SEED: <span className="text-cyan-500">{seed}</span> // <span className="text-purple-400">{formatDifficulty(difficulty.id, difficulty.ease)}</span></p>
               </div>
 
+              <div className="mb-10">
+                <RunHistoryPanel runs={runs} currentRunId={lastRunId} />
+              </div>
+
+              {onWatchReplay && (
+                <div className="mb-10 flex justify-center gap-6 font-mono text-xs tracking-widest">
+                  <button onClick={onWatchReplay} className="text-red-400 hover:text-white transition-colors focus:outline-none">
+                    [WATCH REPLAY]
+                  </button>
+                  {onExportReplay && (
+                    <button onClick={onExportReplay} className="text-gray-500 hover:text-cyan-400 transition-colors focus:outline-none">
+                      [EXPORT REPLAY]
+                    </button>
+                  )}
+                  <button onClick={onExportGhost} className="text-gray-500 hover:text-white transition-colors focus:outline-none">
+                    [EXPORT BEST GHOST]
+                  </button>
+                </div>
+              )}
+
               <p className="text-cyan-400 text-sm tracking-[0.3em] animate-pulse mb-6">SELECT FREQUENCY TO REBOOT</p>
 
               <div className="flex flex-wrap justify-center gap-6">
@@ -97,14 +231,17 @@ const HUD: React.FC<HUDProps> = ({ score, isLocked, isGameOver, onRestart, senti
               <p className="text-cyan-400 tracking-[0.3em] animate-pulse font-mono">CLICK TO RESUME</p>
            </div>
 
+           {showControls ? (
+             <ControlsPanel />
+           ) : (
            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-5xl w-full px-8">
               {/* Keyboard Controls */}
               <div className="bg-black/60 border border-cyan-900/50 p-6 rounded-lg backdrop-blur-sm">
                 <p className="text-sm text-cyan-500 font-bold mb-4 tracking-widest border-b border-cyan-900/50 pb-2">KEYBOARD</p>
                 <div className="space-y-2 font-mono text-xs md:text-sm text-cyan-100/80">
-                  <div className="flex justify-between"><span className="text-cyan-400">[WASD]</span> <span>MOVE</span></div>
-                  <div className="flex justify-between"><span className="text-cyan-400">[SPACE]</span> <span>JUMP / GLIDE</span></div>
-                  <div className="flex justify-between"><span className="text-cyan-400">[L-CLICK]</span> <span>GRAPPLE</span></div>
+                  {getControlHints(inputProfile, 'keyboard').map(hint => (
+                    <div key={hint.label} className="flex justify-between"><span className="text-cyan-400">[{hint.keys}]</span> <span>{hint.label}</span></div>
+                  ))}
                 </div>
               </div>
 
@@ -112,8 +249,15 @@ const HUD: React.FC<HUDProps> = ({ score, isLocked, isGameOver, onRestart, senti
               <div className="bg-black/60 border border-yellow-900/50 p-6 rounded-lg backdrop-blur-sm flex flex-col justify-center text-center">
                  <p className="text-sm text-yellow-500 font-bold mb-4 tracking-widest border-b border-yellow-900/50 pb-2">MISSION</p>
                  <div className="space-y-3 font-mono text-xs md:text-sm">
-                    <p className="text-yellow-100">COLLECT <span className="text-yellow-400 font-bold">STARS</span> TO INCREASE ENERGY</p>
-                    <p className="text-red-300">EVADE <span className="text-red-500 font-bold">SENTINELS</span></p>
+                    {mode.sentinels ? (
+                      <>
+                        <p className="text-yellow-100">COLLECT <span className="text-yellow-400 font-bold">STARS</span> TO INCREASE ENERGY</p>
+                        <p className="text-red-300">EVADE <span className="text-red-500 font-bold">SENTINELS</span></p>
+                        <p className="text-cyan-200">SPEND ENERGY ON <span className="text-cyan-400 font-bold">EMP PULSES</span> AND <span className="text-emerald-400 font-bold">LURES</span></p>
+                      </>
+                    ) : (
+                      <p className="text-yellow-100">{mode.description}</p>
+                    )}
                     <p className="text-cyan-100/60 italic mt-2">"Speed increases with energy"</p>
                  </div>
               </div>
@@ -122,13 +266,26 @@ const HUD: React.FC<HUDProps> = ({ score, isLocked, isGameOver, onRestart, senti
               <div className="bg-black/60 border border-purple-900/50 p-6 rounded-lg backdrop-blur-sm">
                 <p className="text-sm text-purple-500 font-bold mb-4 tracking-widest border-b border-purple-900/50 pb-2">CONTROLLER</p>
                 <div className="space-y-2 font-mono text-xs md:text-sm text-purple-100/80">
-                  <div className="flex justify-between"><span className="text-purple-400">[L-STICK]</span> <span>MOVE</span></div>
-                  <div className="flex justify-between"><span className="text-purple-400">[R-STICK]</span> <span>LOOK</span></div>
-                  <div className="flex justify-between"><span className="text-purple-400">[A / X]</span> <span>JUMP</span></div>
-                  <div className="flex justify-between"><span className="text-purple-400">[RB / R1]</span> <span>GRAPPLE</span></div>
+                  {getControlHints(inputProfile, 'gamepad').map(hint => (
+                    <div key={hint.label} className="flex justify-between"><span className="text-purple-400">[{hint.keys}]</span> <span>{hint.label}</span></div>
+                  ))}
                 </div>
               </div>
            </div>
+           )}
+
+           <button
+              onClick={() => setShowControls(v => !v)}
+              className="mt-6 pointer-events-auto font-mono text-xs tracking-widest text-gray-500 hover:text-cyan-400 transition-colors focus:outline-none"
+           >
+              {showControls ? '[DONE]' : `[REBIND CONTROLS // ${inputProfile.name}]`}
+           </button>
+           <button
+              onClick={onEndRun}
+              className="mt-3 pointer-events-auto font-mono text-xs tracking-widest text-gray-500 hover:text-red-400 transition-colors focus:outline-none"
+           >
+              [END RUN]
+           </button>
         </div>
       )}
 
@@ -142,17 +299,121 @@ const HUD: React.FC<HUDProps> = ({ score, isLocked, isGameOver, onRestart, senti
             <p className="text-cyan-200 text-opacity-70 text-xs md:text-sm mt-2 tracking-[0.2em]">
                 CITY OF WHISPERS
             </p>
+            <p
+                className="text-xs md:text-sm mt-3 font-mono font-bold tracking-[0.3em] transition-colors duration-500"
+                style={{ color: currentDistrict.accent, textShadow: `0 0 10px ${currentDistrict.accent}` }}
+            >
+                &gt; {currentDistrict.name}
+            </p>
             </div>
             <div className="text-right font-mono">
+            {shows('score') && (
             <div className="bg-black/40 backdrop-blur-md border border-yellow-500/50 p-3 md:p-4 rounded-lg mb-2 shadow-[0_0_15px_rgba(255,215,0,0.2)]">
                 <p className="text-yellow-400 text-2xl md:text-3xl font-bold tracking-widest">{score.toString().padStart(3, '0')}</p>
                 <p className="text-yellow-100/60 text-[10px] mt-1">STARS COLLECTED</p>
             </div>
-            {score > 4 && (
+            )}
+            {shows('starTarget') && mode.starTarget !== null && (
+            <div className="bg-black/40 backdrop-blur-md border border-yellow-500/50 p-3 md:p-4 rounded-lg mb-2 shadow-[0_0_15px_rgba(255,215,0,0.2)]">
+                <p className="text-yellow-400 text-2xl md:text-3xl font-bold tracking-widest">{score}<span className="text-yellow-100/40 text-lg">/{mode.starTarget}</span></p>
+                <p className="text-yellow-100/60 text-[10px] mt-1">STARS TO CLEAR</p>
+            </div>
+            )}
+            {shows('style') && (
+            <div className="bg-black/40 backdrop-blur-md border border-fuchsia-500/40 p-2 rounded-lg mb-2">
+                <p className="text-fuchsia-300 text-lg font-bold tracking-widest text-center">
+                    {style.score} <span className={`text-xs ${style.multiplier > 1 ? 'text-white' : 'text-fuchsia-100/40'}`}>x{style.multiplier.toFixed(1)}</span>
+                </p>
+                {/* Empties as the combo window runs out */}
+                <div className="h-1 mt-1 bg-gray-800 rounded-sm overflow-hidden">
+                    <div className="h-full bg-fuchsia-400" style={{ width: `${style.comboLeft * 100}%` }} />
+                </div>
+                <p className="text-fuchsia-100/60 text-[10px] mt-1 text-center">STYLE</p>
+            </div>
+            )}
+            {shows('race') && race && (
+            <div className="bg-black/40 backdrop-blur-md border border-emerald-400/50 p-3 rounded-lg mb-2 shadow-[0_0_15px_rgba(0,255,170,0.2)]">
+                <p className="text-emerald-100/60 text-[10px] flex justify-between gap-4">
+                    <span>LAP {Math.min(race.lap + 1, race.laps)}/{race.laps}</span>
+                    <span>RING {race.next === 0 ? race.checkpoints : race.next}/{race.checkpoints}</span>
+                </p>
+                <p className="text-emerald-300 text-2xl md:text-3xl font-bold tracking-widest">{formatRaceTime(race.lapTime)}</p>
+                {splitDelta !== null && (
+                    <p className={`text-sm font-bold tracking-widest ${splitDelta > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                        {splitDelta > 0 ? '+' : '-'}{Math.abs(splitDelta).toFixed(2)}s
+                    </p>
+                )}
+                {race.lapTimes.map((time, i) => (
+                    <p key={i} className="text-emerald-100/60 text-[10px] flex justify-between gap-4">
+                        <span>LAP {i + 1}</span><span>{formatRaceTime(time)}</span>
+                    </p>
+                ))}
+                {courseBest && (
+                    <p className="text-white/40 text-[10px] mt-1 flex justify-between gap-4">
+                        <span>BEST LAP {formatRaceTime(courseBest.lap)}</span>
+                        {courseBest.total !== null && <span>BEST {formatRaceTime(courseBest.total)}</span>}
+                    </p>
+                )}
+            </div>
+            )}
+            {shows('clock') && (
+            <div className={`bg-black/40 backdrop-blur-md border p-2 rounded-lg mb-2 ${mode.timeLimit !== null && clock < 20 ? 'border-red-500/60 animate-pulse' : 'border-white/20'}`}>
+                <p className="text-white text-xl font-bold tracking-widest text-center">{formatDuration(clock)}</p>
+                <p className="text-white/40 text-[10px] mt-1 text-center">{mode.timeLimit === null ? 'ELAPSED' : 'REMAINING'}</p>
+            </div>
+            )}
+            {shows('shield') && (
+            <div className={`bg-black/40 backdrop-blur-md border p-2 rounded-lg mb-2 ${shield.charges === 0 ? 'border-red-500/60 animate-pulse' : 'border-sky-400/40'}`}>
+                <div className="flex justify-center gap-1">
+                    {Array.from({ length: shield.maxCharges }, (_, i) => (
+                        <div key={i} className={`w-5 h-2 rounded-sm ${i < shield.charges ? 'bg-sky-400 shadow-[0_0_6px_#38bdf8]' : 'bg-gray-800'}`} />
+                    ))}
+                </div>
+                <p className={`text-[10px] mt-1 text-center ${shield.charges === 0 ? 'text-red-400' : 'text-sky-100/60'}`}>{shield.charges === 0 ? 'SHIELD DOWN' : 'SHIELD'}</p>
+            </div>
+            )}
+            {shows('abilities') && (
+            <div className="bg-black/40 backdrop-blur-md border border-cyan-500/30 p-2 rounded-lg mb-2">
+                <p className="text-cyan-300 text-sm font-bold tracking-widest text-center">{abilities.energy} <span className="text-cyan-100/50 text-[10px]">ENERGY</span></p>
+                {ABILITY_IDS.map(id => {
+                    const ability = ABILITIES[id];
+                    const cooldown = abilities.cooldowns[id];
+                    const ready = cooldown === 0 && abilities.energy >= ability.cost;
+                    return (
+                        <div key={id} className={`relative overflow-hidden mt-1 border rounded px-2 py-1 ${ready ? 'border-cyan-400/60' : 'border-gray-700'}`}>
+                            {/* Fills back up as the cooldown runs out */}
+                            <div className="absolute inset-y-0 left-0 bg-cyan-500/20" style={{ width: `${(1 - cooldown / ability.cooldown) * 100}%` }} />
+                            <p className={`relative flex justify-between gap-3 text-[10px] tracking-widest ${ready ? 'text-cyan-200' : 'text-gray-500'}`}>
+                                <span>[{describeAction(inputProfile, id, 'keyboard') || '-'}] {ability.label}</span>
+                                <span>{cooldown > 0 ? `${cooldown.toFixed(1)}s` : `${ability.cost}⚡`}</span>
+                            </p>
+                        </div>
+                    );
+                })}
+            </div>
+            )}
+            {ghostStatus && (
+                <div className="bg-black/40 backdrop-blur-md border border-white/20 p-2 rounded-lg mb-2 text-center">
+                    {ghostStatus.beaten ? (
+                        <p className="text-white text-sm font-bold tracking-widest">GHOST BEATEN</p>
+                    ) : (
+                        <p className={`text-sm font-bold tracking-widest ${ghostStatus.delta === null ? 'text-gray-400' : ghostStatus.delta > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                            {ghostStatus.delta === null ? '--.-' : `${ghostStatus.delta > 0 ? '+' : '-'}${Math.abs(ghostStatus.delta).toFixed(1)}s`}
+                        </p>
+                    )}
+                    <p className="text-white/40 text-[10px] mt-1">VS GHOST</p>
+                </div>
+            )}
+            {shows('threat') && score > 4 && (
                  <div className={`backdrop-blur-md border p-2 rounded-lg animate-pulse ${warningOpacity > 0.5 ? 'bg-red-900/80 border-red-500' : 'bg-red-900/20 border-red-500/30'}`}>
                     <p className="text-red-400 text-xs font-bold tracking-widest text-center">SENTINELS ACTIVE</p>
                  </div>
             )}
+            {shows('threat') && sentinelAlert !== 'hidden' && (
+                 <p className={`mt-2 text-xs font-bold tracking-widest text-center ${sentinelAlert === 'spotted' ? 'text-red-500 animate-pulse' : 'text-amber-400'}`}>
+                    {sentinelAlert === 'spotted' ? '◉ SPOTTED' : '◎ SEARCHING'}
+                 </p>
+            )}
             </div>
         </div>
       )}
@@ -78,6 +78,14 @@ const MobileControls: React.FC<MobileControlsProps> = ({ inputRef }) => {
     }
   };
 
+  // --- Ability Buttons ---
+  // Pulsed like the jump tap; the simulation fires on the press
+  const handleAbilityTap = (ability: 'emp' | 'lure') => (e: React.TouchEvent) => {
+    e.preventDefault();
+    inputRef.current[ability] = true;
+    setTimeout(() => { inputRef.current[ability] = false; }, 100);
+  };
+
   // --- Look Logic (Right Side) ---
   const handleLookStart = (e: React.TouchEvent) => {
     const touch = e.changedTouches[0];
@@ -155,6 +163,22 @@ const MobileControls: React.FC<MobileControlsProps> = ({ inputRef }) => {
         onTouchMove={handleLookMove}
         onTouchEnd={handleLookEnd}
       />
+
+      {/* Abilities (above the look zone so taps don't toggle the hook) */}
+      <div className="absolute top-1/3 right-6 flex flex-col gap-3 pointer-events-auto">
+        <button
+          onTouchStart={handleAbilityTap('emp')}
+          className="w-14 h-14 rounded-full bg-sky-500/20 border border-sky-300/60 text-sky-200 text-[10px] font-mono font-bold tracking-widest backdrop-blur-sm"
+        >
+          EMP
+        </button>
+        <button
+          onTouchStart={handleAbilityTap('lure')}
+          className="w-14 h-14 rounded-full bg-emerald-500/20 border border-emerald-300/60 text-emerald-200 text-[10px] font-mono font-bold tracking-widest backdrop-blur-sm"
+        >
+          LURE
+        </button>
+      </div>
     </div>
   );
 };
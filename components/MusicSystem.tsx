@@ -1,14 +1,20 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import * as Tone from 'tone';
+import { DistrictId } from '../simulation/districts';
+import { gameplayBus } from '../services/gameplayBus';
 
 interface MusicSystemProps {
-  score: number;
   isLocked: boolean;
-  isGameOver: boolean;
 }
 
-const MusicSystem: React.FC<MusicSystemProps> = ({ score, isLocked, isGameOver }) => {
+// Follows the live run on gameplayBus: the score builds the intensity (held at zero
+// in calm-music modes), the district tints the mix, and game over stops it
+const MusicSystem: React.FC<MusicSystemProps> = ({ isLocked }) => {
   const isInitialized = useRef(false);
+  const [score, setScore] = useState(0);
+  const [district, setDistrict] = useState<DistrictId>('downtown');
+  const [isGameOver, setIsGameOver] = useState(false);
+  const calmRef = useRef(false);
 
   // Retro Instruments
   const bassSynth = useRef<Tone.MonoSynth | null>(null);
@@ -25,12 +31,35 @@ const MusicSystem: React.FC<MusicSystemProps> = ({ score, isLocked, isGameOver }
   const volume = useRef<Tone.Volume | null>(null);
 
   const scoreRef = useRef(score);
+  const districtRef = useRef(district);
+
+  useEffect(() => {
+    const addPoints = (points: number) => {
+      if (!calmRef.current) setScore(prev => prev + points);
+    };
+    const unsubscribe = [
+      gameplayBus.on('runStarted', ({ mode }) => {
+        calmRef.current = mode.calmMusic;
+        setScore(0);
+        setIsGameOver(false);
+      }),
+      gameplayBus.on('starCollected', ({ value }) => addPoints(value)),
+      gameplayBus.on('chainComplete', ({ bonus }) => addPoints(bonus)),
+      gameplayBus.on('districtChanged', event => setDistrict(event.district)),
+      gameplayBus.on('gameOver', () => setIsGameOver(true))
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, []);
 
   // Keep score ref updated for the audio loop
   useEffect(() => {
     scoreRef.current = score;
   }, [score]);
 
+  useEffect(() => {
+    districtRef.current = district;
+  }, [district]);
+
   // Initialize Audio Engine
   useEffect(() => {
     if (isInitialized.current) return;
@@ -108,6 +137,7 @@ const MusicSystem: React.FC<MusicSystemProps> = ({ score, isLocked, isGameOver }
 
     Tone.Transport.scheduleRepeat((time) => {
       const s = scoreRef.current;
+      const d = districtRef.current;
       const step = tick % 16; 
       const barTotal = Math.floor(tick / 16);
       
@@ -133,8 +163,8 @@ const MusicSystem: React.FC<MusicSystemProps> = ({ score, isLocked, isGameOver }
          bassSynth.current?.triggerAttackRelease(harmony.bass, "16n", time);
       }
       
-      // GALLOP RHYTHM (Score > 25)
-      if (s > 25) {
+      // GALLOP RHYTHM (Score > 25, always on in the industrial district)
+      if (s > 25 || d === 'industrial') {
           if (step === 11 || step === 15) {
              bassSynth.current?.triggerAttackRelease(harmony.bass, "32n", time, 0.7);
           }
@@ -146,7 +176,8 @@ const MusicSystem: React.FC<MusicSystemProps> = ({ score, isLocked, isGameOver }
       }
 
       // --- DRUMS ---
-      if (s > 3) {
+      // The canal drops the beat out entirely
+      if (s > 3 && d !== 'canal') {
          // Kicks Accent (Score > 10)
          if (s > 10 && (step === 0 || step === 8)) {
             drumSynth.current?.envelope.set({ decay: 0.15 });
@@ -177,7 +208,7 @@ const MusicSystem: React.FC<MusicSystemProps> = ({ score, isLocked, isGameOver }
       if (s > 5) {
           // Standard Pad
           if (step === 0) {
-              const dur = s > 50 ? "8n" : "1n"; // Staccato gate at high score
+              const dur = s > 50 && d !== 'canal' ? "8n" : "1n"; // Staccato gate at high score
               chordSynth.current?.triggerAttackRelease(harmony.chord, dur, time, 0.6);
           }
           
@@ -214,8 +245,8 @@ const MusicSystem: React.FC<MusicSystemProps> = ({ score, isLocked, isGameOver }
           }
       }
       
-      // --- HYPER ARP LAYER (Score > 80) ---
-      if (s > 80) {
+      // --- HYPER ARP LAYER (Score > 80, or anywhere in the neon market) ---
+      if (s > 80 || d === 'market') {
           if (step % 2 !== 0) {
                const rootMidi = Tone.Frequency(harmony.root).toMidi();
                // Offset arpeggio for chaotic texture
@@ -245,7 +276,9 @@ const MusicSystem: React.FC<MusicSystemProps> = ({ score, isLocked, isGameOver }
 
     // 2. Filter Opening (500Hz -> 20kHz)
     // As score increases, sound gets brighter and fuller
-    const targetFreq = Math.min(500 + score * 250, 20000);
+    // Districts tint the mix: the canal is muffled, industrial slightly darker
+    const districtTone = district === 'canal' ? 0.4 : district === 'industrial' ? 0.75 : 1;
+    const targetFreq = Math.min(500 + score * 250, 20000) * districtTone;
     lowPass.current?.frequency.rampTo(targetFreq, 0.5);
 
     // 3. Distortion (Heat)
@@ -271,9 +304,11 @@ const MusicSystem: React.FC<MusicSystemProps> = ({ score, isLocked, isGameOver }
     // 5. Arp Volume Fade In
     if (score > 80) {
         arpSynth.current?.volume.rampTo(-10, 1);
+    } else {
+        arpSynth.current?.volume.rampTo(district === 'market' ? -16 : -20, 1);
     }
 
-  }, [score]);
+  }, [score, district]);
 
   // Play/Pause State Logic
   useEffect(() => {
@@ -1,57 +1,80 @@
-import React, { useMemo, useRef, useLayoutEffect } from 'react';
+import React, { useMemo, useRef, useLayoutEffect, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { BuildingData } from '../types';
+import { SeededRandom } from '../simulation/random';
+import { CityStreamer, LOAD_RADIUS } from '../simulation/cityStreamer';
+import { ChunkData, getChunkWindowSeed } from '../simulation/cityGenerator';
+import { CHUNK_SIZE } from '../simulation/chunks';
+import { DISTRICTS } from '../simulation/districts';
 
 interface ProceduralCityProps {
-  buildings: BuildingData[];
+  city: CityStreamer;
 }
 
-const ProceduralCity: React.FC<ProceduralCityProps> = ({ buildings }) => {
+// Windows are the bulk of the instance count, so only nearby chunks get them
+const WINDOW_RADIUS = 2;
+
+interface CityChunkProps {
+  chunk: ChunkData;
+  seed: number;
+  showWindows: boolean;
+}
+
+const CityChunk: React.FC<CityChunkProps> = ({ chunk, seed, showWindows }) => {
+  const { buildings } = chunk;
+  // Every part of a compound building is its own instance
+  const parts = useMemo(() => buildings.flatMap(b => b.parts.map(part => ({ part, color: b.color }))), [buildings]);
   const meshRef = useRef<THREE.InstancedMesh>(null);
   const wireframeRef = useRef<THREE.InstancedMesh>(null);
   const windowMeshRef = useRef<THREE.InstancedMesh>(null);
+  const roadMeshRef = useRef<THREE.InstancedMesh>(null);
 
   // 1. Setup Main Buildings and Wireframes
   useLayoutEffect(() => {
     if (!meshRef.current || !wireframeRef.current) return;
     const tempObject = new THREE.Object3D();
-    
-    buildings.forEach((data, i) => {
+
+    parts.forEach(({ part: data, color }, i) => {
       tempObject.position.set(...data.position);
       tempObject.scale.set(...data.scale);
       tempObject.rotation.set(0, 0, 0);
       tempObject.updateMatrix();
-      
+
       meshRef.current!.setMatrixAt(i, tempObject.matrix);
-      
+      meshRef.current!.setColorAt(i, new THREE.Color(color));
+
       // Wireframe is slightly larger to prevent z-fighting
       tempObject.scale.set(data.scale[0] * 1.002, data.scale[1] * 1.002, data.scale[2] * 1.002);
       tempObject.updateMatrix();
       wireframeRef.current!.setMatrixAt(i, tempObject.matrix);
     });
-    
+
     meshRef.current.instanceMatrix.needsUpdate = true;
+    if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
     wireframeRef.current.instanceMatrix.needsUpdate = true;
-  }, [buildings]);
+  }, [parts]);
 
-  // 2. Generate Windows stuck to faces
+  // 2. Generate Windows stuck to faces (deterministic per chunk, palette from its district)
   const windows = useMemo(() => {
     const tempWindows: { pos: [number, number, number], rot: [number, number, number], scale: [number, number, number], color: string }[] = [];
-    const colors = ['#00ffff', '#ff00ff', '#ffff00', '#ffffff'];
-    
-    buildings.forEach((b) => {
-        // Number of windows based on building size
-        const numWindows = Math.floor(b.scale[1] / 6) * Math.floor(Math.random() * 4 + 1);
-        
+    if (!showWindows) return tempWindows;
+
+    const rng = new SeededRandom(getChunkWindowSeed(seed, chunk.cx, chunk.cz));
+    const { windowColors, windowDensity } = DISTRICTS[chunk.district];
+
+    parts.forEach(({ part: b }) => {
+        // Number of windows based on part size
+        const numWindows = Math.floor(Math.floor(b.scale[1] / 6) * Math.floor(rng.next() * 4 + 1) * windowDensity);
+
         for(let j=0; j<numWindows; j++) {
-            const face = Math.floor(Math.random() * 4); // 0: Front (+z), 1: Back (-z), 2: Right (+x), 3: Left (-x)
-            
-            const winW = 1.5 + Math.random() * 2;
-            const winH = 1.5 + Math.random() * 2;
-            
+            const face = rng.int(4); // 0: Front (+z), 1: Back (-z), 2: Right (+x), 3: Left (-x)
+
+            const winW = 1.5 + rng.next() * 2;
+            const winH = 1.5 + rng.next() * 2;
+
             // Random position on the surface
             // Vertical position
-            const yOffset = (Math.random() - 0.5) * (b.scale[1] - 4); 
+            const yOffset = (rng.next() - 0.5) * (b.scale[1] - 4);
             const y = b.position[1] + yOffset;
 
             let x = b.position[0];
@@ -61,19 +84,19 @@ const ProceduralCity: React.FC<ProceduralCityProps> = ({ buildings }) => {
             // Calculate face position
             if (face === 0) { // Front (+Z)
                 z += b.scale[2] / 2 + 0.1; // Push out slightly
-                x += (Math.random() - 0.5) * (b.scale[0] - 4);
+                x += (rng.next() - 0.5) * (b.scale[0] - 4);
                 rotY = 0;
             } else if (face === 1) { // Back (-Z)
                 z -= b.scale[2] / 2 + 0.1;
-                x += (Math.random() - 0.5) * (b.scale[0] - 4);
+                x += (rng.next() - 0.5) * (b.scale[0] - 4);
                 rotY = Math.PI;
             } else if (face === 2) { // Right (+X)
                 x += b.scale[0] / 2 + 0.1;
-                z += (Math.random() - 0.5) * (b.scale[2] - 4);
+                z += (rng.next() - 0.5) * (b.scale[2] - 4);
                 rotY = Math.PI / 2;
             } else if (face === 3) { // Left (-X)
                 x -= b.scale[0] / 2 + 0.1;
-                z += (Math.random() - 0.5) * (b.scale[2] - 4);
+                z += (rng.next() - 0.5) * (b.scale[2] - 4);
                 rotY = -Math.PI / 2;
             }
 
@@ -81,21 +104,21 @@ const ProceduralCity: React.FC<ProceduralCityProps> = ({ buildings }) => {
                 pos: [x, y, z],
                 rot: [rotX, rotY, rotZ],
                 scale: [winW, winH, 0.2],
-                color: colors[Math.floor(Math.random() * colors.length)]
+                color: rng.pick(windowColors)
             });
         }
     });
     return tempWindows;
-  }, [buildings]);
+  }, [parts, seed, chunk.cx, chunk.cz, chunk.district, showWindows]);
 
    useLayoutEffect(() => {
     if (!windowMeshRef.current) return;
     const tempObject = new THREE.Object3D();
-    
+
     windows.forEach((w, i) => {
       tempObject.position.set(...w.pos);
       tempObject.rotation.set(...w.rot);
-      tempObject.scale.set(...w.scale); 
+      tempObject.scale.set(...w.scale);
       tempObject.updateMatrix();
       windowMeshRef.current!.setMatrixAt(i, tempObject.matrix);
       windowMeshRef.current!.setColorAt(i, new THREE.Color(w.color));
@@ -103,38 +126,104 @@ const ProceduralCity: React.FC<ProceduralCityProps> = ({ buildings }) => {
     windowMeshRef.current.instanceMatrix.needsUpdate = true;
   }, [windows]);
 
+  // 3. Glowing center lines so the street grid reads from above
+  const roadEdges = chunk.roads.edges;
+  useLayoutEffect(() => {
+    if (!roadMeshRef.current) return;
+    const tempObject = new THREE.Object3D();
+    const nodes = new Map(chunk.roads.nodes.map(n => [n.id, n]));
+
+    roadEdges.forEach((edge, i) => {
+      const a = nodes.get(edge.a)!;
+      const b = nodes.get(edge.b)!;
+      const lineWidth = edge.kind === 'avenue' ? 1.2 : 0.5;
+      tempObject.position.set((a.x + b.x) / 2, 0.05, (a.z + b.z) / 2);
+      tempObject.scale.set(Math.max(Math.abs(b.x - a.x), lineWidth), 0.1, Math.max(Math.abs(b.z - a.z), lineWidth));
+      tempObject.updateMatrix();
+      roadMeshRef.current!.setMatrixAt(i, tempObject.matrix);
+      roadMeshRef.current!.setColorAt(i, new THREE.Color(edge.kind === 'avenue' ? '#2266aa' : '#1a3350'));
+    });
+    roadMeshRef.current.instanceMatrix.needsUpdate = true;
+  }, [roadEdges, chunk.roads.nodes]);
 
   return (
     <group>
-      {/* Main Building Bodies */}
-      <instancedMesh ref={meshRef} args={[undefined, undefined, buildings.length]} receiveShadow castShadow>
-        <boxGeometry args={[1, 1, 1]} />
-        <meshStandardMaterial 
-            color="#3a3a4a" 
-            roughness={0.9} 
-            metalness={0.1} 
-        />
-      </instancedMesh>
+      {/* Street Lines */}
+      {roadEdges.length > 0 && (
+        <instancedMesh ref={roadMeshRef} args={[undefined, undefined, roadEdges.length]}>
+          <boxGeometry args={[1, 1, 1]} />
+          <meshBasicMaterial toneMapped={false} />
+        </instancedMesh>
+      )}
+
+      {parts.length > 0 && (
+        <>
+          {/* Main Building Bodies */}
+          <instancedMesh ref={meshRef} args={[undefined, undefined, parts.length]} receiveShadow castShadow>
+            <boxGeometry args={[1, 1, 1]} />
+            <meshStandardMaterial
+                color="#ffffff"
+                roughness={0.9}
+                metalness={0.1}
+            />
+          </instancedMesh>
 
-      {/* Building Outlines (Neon Edges) */}
-      <instancedMesh ref={wireframeRef} args={[undefined, undefined, buildings.length]}>
-        <boxGeometry args={[1, 1, 1]} />
-        <meshBasicMaterial wireframe color="#446688" transparent opacity={0.3} />
-      </instancedMesh>
+          {/* Building Outlines (Neon Edges) */}
+          <instancedMesh ref={wireframeRef} args={[undefined, undefined, parts.length]}>
+            <boxGeometry args={[1, 1, 1]} />
+            <meshBasicMaterial wireframe color="#446688" transparent opacity={0.3} />
+          </instancedMesh>
+        </>
+      )}
 
       {/* Glowing Windows */}
-      <instancedMesh ref={windowMeshRef} args={[undefined, undefined, windows.length]}>
-          <boxGeometry args={[1, 1, 1]} />
-          <meshBasicMaterial toneMapped={false} />
-      </instancedMesh>
+      {windows.length > 0 && (
+        <instancedMesh ref={windowMeshRef} args={[undefined, undefined, windows.length]}>
+            <boxGeometry args={[1, 1, 1]} />
+            <meshBasicMaterial toneMapped={false} />
+        </instancedMesh>
+      )}
+    </group>
+  );
+};
+
+// Renders whatever the streamer has resident (the simulation does the streaming)
+const ProceduralCity: React.FC<ProceduralCityProps> = ({ city }) => {
+  const [chunks, setChunks] = useState<ChunkData[]>(() => city.residentChunks());
+  const [center, setCenter] = useState(() => city.centerChunk);
+  const shownVersion = useRef(-1);
+
+  useFrame(() => {
+    if (city.version !== shownVersion.current) {
+      shownVersion.current = city.version;
+      setChunks(city.residentChunks());
+      setCenter(city.centerChunk);
+    }
+  });
+
+  // Floor follows the streamed area
+  const floorSize = (LOAD_RADIUS * 2 + 3) * CHUNK_SIZE;
+  const floorX = (center.cx + 0.5) * CHUNK_SIZE;
+  const floorZ = (center.cz + 0.5) * CHUNK_SIZE;
+
+  return (
+    <group>
+      {chunks.map(chunk => (
+        <CityChunk
+          key={chunk.key}
+          chunk={chunk}
+          seed={city.seed}
+          showWindows={Math.max(Math.abs(chunk.cx - center.cx), Math.abs(chunk.cz - center.cz)) <= WINDOW_RADIUS}
+        />
+      ))}
 
       {/* Floor */}
-      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0]} receiveShadow>
-        <planeGeometry args={[10000, 10000]} />
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[floorX, 0, floorZ]} receiveShadow>
+        <planeGeometry args={[floorSize, floorSize]} />
         <meshStandardMaterial color="#080808" metalness={0.2} roughness={0.8} />
       </mesh>
     </group>
   );
 };
 
-export default ProceduralCity;
\ No newline at end of file
+export default ProceduralCity;
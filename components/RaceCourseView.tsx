@@ -0,0 +1,85 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Color, ConeGeometry, InstancedMesh, Mesh, Object3D, Vector3 } from 'three';
+import { useSimulation } from './SimulationLoop';
+import { GameSimulation } from '../simulation/gameSimulation';
+import { RaceCourse, RING_RADIUS } from '../simulation/raceCourse';
+
+interface RaceCourseViewProps {
+  sim: GameSimulation;
+  course: RaceCourse;
+}
+
+const START_COLOR = new Color('#ffffff');
+const NEXT_COLOR = new Color('#00ffaa');
+const AHEAD_COLOR = new Color('#0a6a55');
+const PASSED_COLOR = new Color('#1a2a2a');
+// Rings glow past the bloom threshold
+const GLOW = 3;
+
+// The checkpoint rings of a race course, and an arrow over the wisp pointing at the next one
+const RaceCourseView: React.FC<RaceCourseViewProps> = ({ sim, course }) => {
+  const ringsRef = useRef<InstancedMesh>(null);
+  const arrowRef = useRef<Mesh>(null);
+  const simulation = useSimulation();
+  const { checkpoints } = course;
+
+  const { color, wispPosition, arrowGeometry } = useMemo(() => ({
+    color: new Color(),
+    wispPosition: new Vector3(),
+    // Tip turned onto local Z so lookAt aims it
+    arrowGeometry: new ConeGeometry(0.35, 1.2, 8).rotateX(Math.PI / 2)
+  }), []);
+
+  // Rings stay put; only their colours change as the race goes on
+  useLayoutEffect(() => {
+    const mesh = ringsRef.current;
+    if (!mesh) return;
+    const dummy = new Object3D();
+    checkpoints.forEach((checkpoint, i) => {
+      dummy.position.copy(checkpoint.position);
+      // The torus opens along its local Z
+      dummy.lookAt(checkpoint.position.clone().add(checkpoint.normal));
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+  }, [checkpoints]);
+
+  useFrame((state) => {
+    const mesh = ringsRef.current;
+    const race = sim.race;
+    if (!mesh || !race) return;
+    const pulse = 1 + Math.sin(state.clock.getElapsedTime() * 6) * 0.3;
+    checkpoints.forEach((_, i) => {
+      // Rings ahead on this lap, counting the finish line last
+      const ahead = race.next === 0 ? i === 0 : i >= race.next || i === 0;
+      if (i === race.next) color.copy(NEXT_COLOR).multiplyScalar(GLOW * pulse);
+      else if (i === 0) color.copy(START_COLOR).multiplyScalar(ahead ? GLOW * 0.5 : 0.5);
+      else color.copy(ahead ? AHEAD_COLOR : PASSED_COLOR).multiplyScalar(GLOW * 0.5);
+      mesh.setColorAt(i, color);
+    });
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+
+    const arrow = arrowRef.current;
+    if (!arrow) return;
+    arrow.visible = !sim.over;
+    wispPosition.lerpVectors(sim.prevWispPosition, sim.wisp.position, simulation.alpha);
+    arrow.position.copy(wispPosition).y += 2.5;
+    arrow.lookAt(checkpoints[race.next].position);
+  });
+
+  return (
+    <group>
+      <instancedMesh ref={ringsRef} args={[undefined, undefined, checkpoints.length]} frustumCulled={false}>
+        <torusGeometry args={[RING_RADIUS, 0.4, 8, 48]} />
+        <meshBasicMaterial toneMapped={false} />
+      </instancedMesh>
+      <mesh ref={arrowRef} geometry={arrowGeometry}>
+        <meshBasicMaterial color={NEXT_COLOR} toneMapped={false} />
+      </mesh>
+    </group>
+  );
+};
+
+export default RaceCourseView;
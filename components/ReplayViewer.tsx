@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { TICK_RATE } from '../simulation/fixedStep';
+import { DISTRICTS } from '../simulation/districts';
+import { REPLAY_SPEEDS, ReplayPlayer } from '../simulation/replay';
+import { formatDuration } from './RunHistoryPanel';
+
+interface ReplayViewerProps {
+  player: ReplayPlayer;
+  camera: 'follow' | 'free';
+  onCameraChange: (camera: 'follow' | 'free') => void;
+  onExport: () => void;
+  onExit: () => void;
+}
+
+// Playback controls over the scene while a replay runs (GameScene does the stepping)
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ player, camera, onCameraChange, onExport, onExit }) => {
+  const [, setFrame] = useState(0);
+
+  // The player advances outside React; refresh the readout at 10Hz
+  useEffect(() => {
+    const interval = setInterval(() => setFrame(f => f + 1), 100);
+    return () => clearInterval(interval);
+  }, []);
+
+  const { replay, sim } = player;
+  const districtRules = DISTRICTS[sim.city.districtAt(sim.wisp.position.x, sim.wisp.position.z).id];
+
+  return (
+    <div className="absolute inset-0 z-50 pointer-events-none flex flex-col justify-between p-6 font-mono tracking-widest">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="text-red-500 text-xs font-bold animate-pulse">● REPLAY</p>
+          <p className="text-gray-500 text-[10px] mt-1 select-text">
+            CITY SEED: <span className="text-cyan-500">{replay.seed}</span> // {new Date(replay.date).toLocaleString()}
+          </p>
+          <p className="text-xs mt-2 font-bold" style={{ color: districtRules.accent }}>&gt; {districtRules.name}</p>
+        </div>
+        <div className="bg-black/40 border border-yellow-500/50 p-3 rounded-lg text-right">
+          <p className="text-yellow-400 text-2xl font-bold">{sim.score.toString().padStart(3, '0')}</p>
+          <p className="text-yellow-100/60 text-[10px] mt-1">STARS COLLECTED</p>
+          <p className="text-fuchsia-300 text-sm font-bold mt-2">{sim.style.score} <span className="text-fuchsia-100/60 text-[10px]">STYLE</span></p>
+        </div>
+      </div>
+
+      {player.seeking && (
+        <p className="self-center text-cyan-400 text-sm animate-pulse">SEEKING...</p>
+      )}
+
+      {/* Transport */}
+      <div className="pointer-events-auto bg-black/70 border border-cyan-900/50 rounded-lg p-4 backdrop-blur-sm text-xs">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => player.togglePlaying()}
+            className="w-20 text-cyan-400 hover:text-white transition-colors focus:outline-none"
+          >
+            {player.ended ? '[REPLAY]' : player.playing ? '[PAUSE]' : '[PLAY]'}
+          </button>
+          <span className="text-cyan-300 w-12 text-right">{formatDuration(player.tick / TICK_RATE)}</span>
+          <input
+            type="range"
+            min={0}
+            max={player.length}
+            value={player.tick}
+            onChange={(e) => player.seek(Number(e.target.value))}
+            className="flex-1 accent-cyan-400"
+          />
+          <span className="text-gray-500 w-12">{formatDuration(player.length / TICK_RATE)}</span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mt-3 text-[10px]">
+          <span className="text-gray-600">SPEED</span>
+          {REPLAY_SPEEDS.map(speed => (
+            <button
+              key={speed}
+              onClick={() => { player.speed = speed; }}
+              className={`transition-colors focus:outline-none ${player.speed === speed ? 'text-cyan-300' : 'text-gray-500 hover:text-cyan-400'}`}
+            >
+              [{speed}x]
+            </button>
+          ))}
+          <span className="text-gray-600 ml-4">CAMERA</span>
+          {(['follow', 'free'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onCameraChange(mode)}
+              className={`transition-colors focus:outline-none ${camera === mode ? 'text-cyan-300' : 'text-gray-500 hover:text-cyan-400'}`}
+            >
+              [{mode.toUpperCase()}]
+            </button>
+          ))}
+          {camera === 'free' && <span className="text-gray-600">DRAG TO ORBIT // RIGHT-DRAG TO PAN // SCROLL TO ZOOM</span>}
+          <button onClick={onExport} className="ml-auto text-gray-500 hover:text-cyan-400 transition-colors focus:outline-none">
+            [EXPORT REPLAY]
+          </button>
+          <button onClick={onExit} className="text-gray-500 hover:text-red-400 transition-colors focus:outline-none">
+            [EXIT]
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
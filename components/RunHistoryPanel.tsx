@@ -0,0 +1,136 @@
+import React from 'react';
+import { RunRecord } from '../types';
+import { DISTRICTS } from '../simulation/districts';
+import { DIFFICULTY_LABELS, DifficultyId } from '../simulation/difficulty';
+import { GAME_MODES } from '../simulation/gameModes';
+import { COURSES } from '../simulation/raceCourse';
+import { getPersonalBests } from '../services/runHistoryService';
+
+interface RunHistoryPanelProps {
+  runs: RunRecord[];
+  // Run to highlight (the one that just ended)
+  currentRunId?: string | null;
+  limit?: number;
+}
+
+export const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+// Race clock: 1:02.3
+export const formatRaceTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+// "NORMAL", or "NORMAL -2" when adaptive mode had eased it off
+export const formatDifficulty = (id: DifficultyId, ease: number) =>
+  ease > 0 ? `${DIFFICULTY_LABELS[id]} -${ease}` : DIFFICULTY_LABELS[id];
+
+const formatDate = (iso: string) => {
+  const d = new Date(iso);
+  return `${(d.getMonth() + 1).toString().padStart(2, '0')}/${d.getDate().toString().padStart(2, '0')} ${d.getHours().toString().padStart(2, '0')}:${d.getMinutes().toString().padStart(2, '0')}`;
+};
+
+const CAUSE_LABELS: Record<RunRecord['cause'], string> = {
+  sentinel: 'SENTINEL',
+  sniperBeam: 'SNIPER BEAM',
+  cleared: 'CLEARED',
+  timeUp: 'TIME UP',
+  quit: 'ENDED'
+};
+
+// Tailwind needs the class names spelled out
+const GRID_COLUMNS: Record<number, string> = { 2: 'grid-cols-2', 3: 'grid-cols-3', 4: 'grid-cols-4' };
+
+const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ runs, currentRunId, limit = 5 }) => {
+  if (runs.length === 0) {
+    return (
+      <p className="text-gray-600 text-[10px] font-mono tracking-widest">NO RUNS LOGGED YET</p>
+    );
+  }
+
+  const bests = getPersonalBests(runs);
+  const bestCount = 2 + (bests.clearTime ? 1 : 0) + (bests.styleScore ? 1 : 0);
+
+  return (
+    <div className="font-mono text-[10px] md:text-xs tracking-widest text-left">
+      {/* Personal Bests */}
+      <div className={`grid gap-4 mb-4 ${GRID_COLUMNS[bestCount]}`}>
+        <div className="border border-yellow-900/50 bg-black/40 p-2 rounded">
+          <p className="text-yellow-600">BEST ENERGY</p>
+          <p className="text-yellow-300 text-lg font-bold">
+            {bests.score?.score ?? 0}
+            {bests.score && bests.score.id === currentRunId && <span className="text-[10px] ml-2 animate-pulse">NEW</span>}
+          </p>
+        </div>
+        <div className="border border-cyan-900/50 bg-black/40 p-2 rounded">
+          <p className="text-cyan-600">LONGEST SIGNAL</p>
+          <p className="text-cyan-300 text-lg font-bold">
+            {formatDuration(bests.survivalTime?.survivalTime ?? 0)}
+            {bests.survivalTime && bests.survivalTime.id === currentRunId && <span className="text-[10px] ml-2 animate-pulse">NEW</span>}
+          </p>
+        </div>
+        {bests.clearTime && (
+          <div className="border border-green-900/50 bg-black/40 p-2 rounded">
+            <p className="text-green-600">FASTEST CLEAR</p>
+            <p className="text-green-300 text-lg font-bold">
+              {formatDuration(bests.clearTime.survivalTime)}
+              {bests.clearTime.id === currentRunId && <span className="text-[10px] ml-2 animate-pulse">NEW</span>}
+            </p>
+          </div>
+        )}
+        {bests.styleScore && (
+          <div className="border border-fuchsia-900/50 bg-black/40 p-2 rounded">
+            <p className="text-fuchsia-600">BEST STYLE</p>
+            <p className="text-fuchsia-300 text-lg font-bold">
+              {bests.styleScore.styleScore}
+              {bests.styleScore.id === currentRunId && <span className="text-[10px] ml-2 animate-pulse">NEW</span>}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Recent Runs */}
+      <p className="text-gray-500 mb-1">RECENT RUNS</p>
+      <table className="w-full text-gray-400">
+        <thead>
+          <tr className="text-gray-600 border-b border-gray-800">
+            <th className="text-left font-normal py-1">DATE</th>
+            <th className="text-right font-normal">STARS</th>
+            <th className="text-right font-normal">STYLE</th>
+            <th className="text-right font-normal">TIME</th>
+            <th className="text-left font-normal pl-3">ENDED IN</th>
+            <th className="text-left font-normal pl-3">MODE</th>
+            <th className="text-right font-normal">SEED</th>
+          </tr>
+        </thead>
+        <tbody>
+          {runs.slice(0, limit).map(run => (
+            <tr key={run.id} className={run.id === currentRunId ? 'text-white' : ''}>
+              <td className="py-0.5">
+                <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: run.wispColor }} />
+                {formatDate(run.date)}
+              </td>
+              <td className="text-right text-yellow-400">{run.score}</td>
+              <td className="text-right text-fuchsia-400">{run.styleScore}</td>
+              <td className="text-right">{formatDuration(run.survivalTime)}</td>
+              <td className="pl-3" style={{ color: DISTRICTS[run.district].accent }}>
+                {DISTRICTS[run.district].name} <span className="text-gray-600">/ {CAUSE_LABELS[run.cause]}</span>
+              </td>
+              <td className="pl-3 text-purple-400">
+                {run.race ? COURSES[run.race.course].label : GAME_MODES[run.mode].label} <span className="text-gray-600">/ {formatDifficulty(run.difficulty, run.ease)}</span>
+              </td>
+              <td className="text-right text-cyan-700 select-text">{run.seed}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default RunHistoryPanel;
@@ -0,0 +1,44 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { FixedStepScheduler, TickCallback } from '../simulation/fixedStep';
+
+const SimulationContext = createContext<FixedStepScheduler | null>(null);
+
+// Drives the fixed-step scheduler from the render loop. Must live inside <Canvas>.
+const SimulationLoop: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const scheduler = useMemo(() => new FixedStepScheduler(), []);
+
+  // Negative priority: ticks run before any regular useFrame, so renderers
+  // always interpolate with this frame's alpha (and don't take over rendering)
+  useFrame((_, delta) => {
+    scheduler.advance(delta);
+  }, -1);
+
+  return (
+    <SimulationContext.Provider value={scheduler}>
+      {children}
+    </SimulationContext.Provider>
+  );
+};
+
+export const useSimulation = (): FixedStepScheduler => {
+  const scheduler = useContext(SimulationContext);
+  if (!scheduler) {
+    throw new Error("useSimulation must be used inside <SimulationLoop>");
+  }
+  return scheduler;
+};
+
+// Subscribe a gameplay system to the fixed tick. The latest callback is always used,
+// so it can close over fresh props without resubscribing.
+export const useFixedStep = (callback: TickCallback, priority = 0) => {
+  const scheduler = useSimulation();
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    return scheduler.subscribe((dt, tick) => callbackRef.current(dt, tick), priority);
+  }, [scheduler, priority]);
+};
+
+export default SimulationLoop;
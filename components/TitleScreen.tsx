@@ -1,10 +1,114 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
+import { parseSeed, randomSeed } from '../simulation/random';
+import { RunRecord } from '../types';
+import { runHistory } from '../services/runHistoryService';
+import { downloadJson } from '../services/download';
+import { getControlHints, useInputProfile } from '../services/inputService';
+import { Replay, decodeReplay } from '../simulation/replay';
+import { GhostPath, decodeGhost } from '../simulation/ghost';
+import { CustomDifficulty, DIFFICULTY_IDS, DIFFICULTY_LABELS } from '../simulation/difficulty';
+import { GAME_MODES, GAME_MODE_IDS, GameModeId } from '../simulation/gameModes';
+import { COURSES, COURSE_IDS, CourseId } from '../simulation/raceCourse';
+import { CUSTOM_LIMITS, difficultyService, useDifficultySettings } from '../services/difficultyService';
+import { LifetimeStats, statsService } from '../services/statsService';
+import RunHistoryPanel, { formatDuration } from './RunHistoryPanel';
 
 interface TitleScreenProps {
-  onStart: () => void;
+  onStart: (seed: number) => void;
+  initialSeed: number;
+  mode: GameModeId;
+  onModeChange: (mode: GameModeId) => void;
+  course: CourseId;
+  onCourseChange: (course: CourseId) => void;
+  runs: RunRecord[];
+  onHistoryChange: () => void;
+  onLoadReplay: (replay: Replay) => void;
+  onLoadGhost: (ghost: GhostPath) => void;
 }
 
-const TitleScreen: React.FC<TitleScreenProps> = ({ onStart }) => {
+const CUSTOM_LABELS: Record<keyof CustomDifficulty, string> = {
+  spawnRate: 'SPAWN RATE',
+  sentinelCount: 'SENTINEL COUNT',
+  sentinelSpeed: 'SENTINEL SPEED',
+  wispSpeed: 'WISP SPEED',
+  shieldCharges: 'SHIELD CHARGES'
+};
+
+// "LIFETIME  12 RUNS  62:03 PLAYED  340 STARS  55 TRICKS  4 SENTINELS DOWN"
+const formatLifetime = (stats: LifetimeStats) => {
+  const stars = Object.values(stats.stars).reduce((sum, n) => sum + n, 0);
+  const tricks = Object.values(stats.tricks).reduce((sum, n) => sum + n, 0);
+  return [
+    'LIFETIME',
+    `${stats.runs} RUNS`,
+    `${formatDuration(stats.playTime)} PLAYED`,
+    `${stars} STARS`,
+    `${tricks} TRICKS`,
+    `${stats.sentinelsDestroyed} SENTINELS DOWN`
+  ].join('  ');
+};
+
+const TitleScreen: React.FC<TitleScreenProps> = ({ onStart, initialSeed, mode, onModeChange, course, onCourseChange, runs, onHistoryChange, onLoadReplay, onLoadGhost }) => {
+  const [seedInput, setSeedInput] = useState(String(initialSeed));
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyMessage, setHistoryMessage] = useState<string | null>(null);
+  const [fileMessage, setFileMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const ghostInputRef = useRef<HTMLInputElement>(null);
+  const inputProfile = useInputProfile();
+  const difficulty = useDifficultySettings();
+
+  const handleExport = () => downloadJson('neon-wisp-runs.json', runHistory.exportJson());
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      const added = runHistory.importJson(await file.text());
+      onHistoryChange();
+      setHistoryMessage(`IMPORTED ${added} RUN${added === 1 ? '' : 'S'}`);
+    } catch (err) {
+      setHistoryMessage(`IMPORT FAILED: ${(err as Error).message.toUpperCase()}`);
+    }
+  };
+
+  const handleLoadReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onLoadReplay(decodeReplay(await file.text()));
+      setFileMessage(null);
+    } catch (err) {
+      setFileMessage(`LOAD FAILED: ${(err as Error).message.toUpperCase()}`);
+    }
+  };
+
+  const handleLoadGhost = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const ghost = decodeGhost(await file.text());
+      onLoadGhost(ghost);
+      // A ghost only makes sense on the city, mode and difficulty it was recorded in
+      setSeedInput(String(ghost.seed));
+      onModeChange(ghost.mode);
+      if (ghost.course) onCourseChange(ghost.course);
+      difficultyService.select(ghost.difficulty);
+      setFileMessage(`GHOST LOADED: ${ghost.score} STARS ON CITY ${ghost.seed}, ${GAME_MODES[ghost.mode].label} ${DIFFICULTY_LABELS[ghost.difficulty]}`);
+    } catch (err) {
+      setFileMessage(`LOAD FAILED: ${(err as Error).message.toUpperCase()}`);
+    }
+  };
+
+  const handleStart = () => {
+    // Blank field means "surprise me"
+    onStart(parseSeed(seedInput) ?? randomSeed());
+  };
+
   return (
     <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/40 backdrop-blur-[2px]">
       <div className="text-center max-w-4xl w-full px-4 relative">
@@ -30,7 +134,7 @@ const TitleScreen: React.FC<TitleScreenProps> = ({ onStart }) => {
 
         {/* Start Button */}
         <button
-          onClick={onStart}
+          onClick={handleStart}
           className="group relative px-12 py-4 bg-black/60 border border-cyan-500/50 overflow-hidden transition-all duration-300 hover:border-cyan-400 hover:bg-cyan-900/20 focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:ring-offset-2 focus:ring-offset-black"
         >
           <div className="absolute inset-0 w-0 bg-cyan-500/20 transition-all duration-[250ms] ease-out group-hover:w-full"></div>
@@ -39,21 +143,160 @@ const TitleScreen: React.FC<TitleScreenProps> = ({ onStart }) => {
           </span>
         </button>
 
+        {/* City Seed */}
+        <div className="mt-6 flex items-center justify-center gap-3 font-mono text-xs">
+          <label htmlFor="seed-input" className="text-gray-500 tracking-widest">CITY SEED</label>
+          <input
+            id="seed-input"
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleStart(); }}
+            spellCheck={false}
+            className="w-40 bg-black/60 border border-gray-700 px-2 py-1 text-cyan-300 tracking-widest focus:outline-none focus:border-cyan-500"
+          />
+          <button
+            onClick={() => setSeedInput(String(randomSeed()))}
+            className="text-gray-500 hover:text-cyan-400 tracking-widest transition-colors focus:outline-none"
+          >
+            [REROLL]
+          </button>
+          <button
+            onClick={() => setShowHistory(v => !v)}
+            className="text-gray-500 hover:text-yellow-400 tracking-widest transition-colors focus:outline-none"
+          >
+            [RUN LOG{runs.length > 0 ? ` ${runs.length}` : ''}]
+          </button>
+          <button
+            onClick={() => replayInputRef.current?.click()}
+            className="text-gray-500 hover:text-red-400 tracking-widest transition-colors focus:outline-none"
+          >
+            [LOAD REPLAY]
+          </button>
+          <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleLoadReplay} />
+          <button
+            onClick={() => ghostInputRef.current?.click()}
+            className="text-gray-500 hover:text-white tracking-widest transition-colors focus:outline-none"
+          >
+            [LOAD GHOST]
+          </button>
+          <input ref={ghostInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleLoadGhost} />
+        </div>
+        {fileMessage && <p className="mt-2 font-mono text-[10px] text-gray-400 tracking-widest">{fileMessage}</p>}
+
+        {/* Mode */}
+        <div className="mt-4 flex items-center justify-center gap-3 font-mono text-xs">
+          <span className="text-gray-500 tracking-widest">MODE</span>
+          {GAME_MODE_IDS.map(id => (
+            <button
+              key={id}
+              onClick={() => onModeChange(id)}
+              className={`tracking-widest transition-colors focus:outline-none ${mode === id ? 'text-yellow-300' : 'text-gray-600 hover:text-yellow-400'}`}
+            >
+              [{GAME_MODES[id].label}]
+            </button>
+          ))}
+        </div>
+        <p className="mt-1 font-mono text-[10px] text-gray-500 tracking-widest">{GAME_MODES[mode].description}</p>
+        {GAME_MODES[mode].race && (
+          <div className="mt-2 flex items-center justify-center gap-3 font-mono text-xs">
+            <span className="text-gray-500 tracking-widest">COURSE</span>
+            {COURSE_IDS.map(id => (
+              <button
+                key={id}
+                onClick={() => onCourseChange(id)}
+                className={`tracking-widest transition-colors focus:outline-none ${course === id ? 'text-emerald-300' : 'text-gray-600 hover:text-emerald-400'}`}
+              >
+                [{COURSES[id].label} x{COURSES[id].laps}]
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Difficulty */}
+        <div className="mt-4 flex items-center justify-center gap-3 font-mono text-xs">
+          <span className="text-gray-500 tracking-widest">DIFFICULTY</span>
+          {DIFFICULTY_IDS.map(id => (
+            <button
+              key={id}
+              onClick={() => difficultyService.select(id)}
+              className={`tracking-widest transition-colors focus:outline-none ${difficulty.selected === id ? 'text-purple-300' : 'text-gray-600 hover:text-purple-400'}`}
+            >
+              [{DIFFICULTY_LABELS[id]}]
+            </button>
+          ))}
+          <label className="flex items-center gap-1 text-gray-500 tracking-widest cursor-pointer">
+            <input
+              type="checkbox"
+              checked={difficulty.adaptive}
+              onChange={(e) => difficultyService.setAdaptive(e.target.checked)}
+              className="accent-purple-500"
+            />
+            ADAPTIVE
+          </label>
+        </div>
+        {difficulty.selected === 'custom' && (
+          <div className="mt-3 mx-auto max-w-md grid grid-cols-[auto_1fr_3rem] gap-x-3 gap-y-1 items-center font-mono text-[10px] tracking-widest text-gray-500">
+            {(Object.keys(CUSTOM_LIMITS) as (keyof CustomDifficulty)[]).map(key => (
+              <React.Fragment key={key}>
+                <label htmlFor={`custom-${key}`} className="text-left">{CUSTOM_LABELS[key]}</label>
+                <input
+                  id={`custom-${key}`}
+                  type="range"
+                  {...CUSTOM_LIMITS[key]}
+                  value={difficulty.custom[key]}
+                  onChange={(e) => difficultyService.setCustom({ [key]: Number(e.target.value) })}
+                  className="accent-purple-500"
+                />
+                <span className="text-right text-purple-300">
+                  {key === 'shieldCharges' ? difficulty.custom[key] : `x${difficulty.custom[key].toFixed(2)}`}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+
+        {/* Run History */}
+        {showHistory && (
+          <div className="mt-10 max-w-2xl mx-auto bg-black/60 border border-gray-800 p-4 rounded-lg">
+            <RunHistoryPanel runs={runs} limit={8} />
+            <p className="mt-3 font-mono text-[10px] text-gray-500 tracking-widest">{formatLifetime(statsService.getStats())}</p>
+            <div className="mt-4 flex items-center justify-end gap-4 font-mono text-[10px] tracking-widest">
+              {historyMessage && <span className="text-gray-500 mr-auto">{historyMessage}</span>}
+              <button
+                onClick={handleExport}
+                disabled={runs.length === 0}
+                className="text-gray-500 hover:text-cyan-400 disabled:opacity-30 transition-colors focus:outline-none"
+              >
+                [EXPORT JSON]
+              </button>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="text-gray-500 hover:text-cyan-400 transition-colors focus:outline-none"
+              >
+                [IMPORT JSON]
+              </button>
+              <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </div>
+          </div>
+        )}
+
         {/* Controls Hint */}
+        {!showHistory && (
         <div className="mt-16 grid grid-cols-2 gap-8 text-xs md:text-sm font-mono text-gray-400 opacity-80">
           <div className="text-right border-r border-gray-700 pr-4">
             <p className="text-cyan-600 font-bold mb-1">KEYBOARD</p>
-            <p>[WASD] MOVE</p>
-            <p>[SPACE] JUMP</p>
-            <p>[CLICK] GRAPPLE</p>
+            {getControlHints(inputProfile, 'keyboard').map(hint => (
+              <p key={hint.label}>[{hint.keys}] {hint.label}</p>
+            ))}
           </div>
           <div className="text-left pl-4">
             <p className="text-purple-600 font-bold mb-1">CONTROLLER</p>
-            <p>[L-STICK] MOVE</p>
-            <p>[A / X] JUMP</p>
-            <p>[R1 / RB] GRAPPLE</p>
+            {getControlHints(inputProfile, 'gamepad').map(hint => (
+              <p key={hint.label}>[{hint.keys}] {hint.label}</p>
+            ))}
           </div>
         </div>
+        )}
 
         <div className="absolute bottom-[-100px] left-0 w-full text-center">
             <p className="text-[10px] text-gray-600 tracking-widest font-mono">SYSTEM_VERSION: 2.4.0 // READY</p>
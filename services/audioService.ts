@@ -1,4 +1,14 @@
 import * as Tone from 'tone';
+import { SNIPER_CHARGE_TIME, SentinelType } from '../simulation/sentinelArchetypes';
+import { EventBus } from '../simulation/eventBus';
+import { StarType } from '../types';
+import { GameplayEvent } from './gameplayBus';
+
+// Sentinel cues fade with distance and aren't played at all past this
+const SENTINEL_EARSHOT = 300;
+
+// Chain stars climb a major scale as the chain goes on
+const CHAIN_NOTES = ["C6", "D6", "E6", "G6", "A6", "C7"];
 
 class AudioService {
   private jumpSynth: Tone.MembraneSynth | null = null;
@@ -16,6 +26,26 @@ class AudioService {
   private sentinelPanner: Tone.Panner | null = null;
   private sentinelGain: Tone.Gain | null = null;
 
+  // Sentinel archetype signatures
+  private sentinelCueSynth: Tone.Synth | null = null;
+  private droneBuzzSynth: Tone.FMSynth | null = null;
+  private heavySynth: Tone.MembraneSynth | null = null;
+  private sniperChargeSynth: Tone.Synth | null = null;
+  private sniperFireNoise: Tone.NoiseSynth | null = null;
+  private blockedSynth: Tone.Synth | null = null;
+
+  // Abilities
+  private empSynth: Tone.MembraneSynth | null = null;
+  private empNoise: Tone.NoiseSynth | null = null;
+  private empFilter: Tone.Filter | null = null;
+  private lureSynth: Tone.Synth | null = null;
+  private deniedSynth: Tone.Synth | null = null;
+
+  // Shield
+  private shieldSynth: Tone.FMSynth | null = null;
+  private shieldNoise: Tone.NoiseSynth | null = null;
+  private rechargeSynth: Tone.PolySynth | null = null;
+
   private isInitialized = false;
 
   init() {
@@ -78,9 +108,136 @@ class AudioService {
     this.sentinelOsc.start();
     this.sentinelLFO.start();
 
+    // 6. SENTINEL ARCHETYPE CUES (one signature per type when it locks on)
+    this.sentinelCueSynth = new Tone.Synth({
+        oscillator: { type: "square" },
+        envelope: { attack: 0.005, decay: 0.1, sustain: 0, release: 0.3 }
+    }).toDestination();
+    this.sentinelCueSynth.volume.value = -14;
+
+    this.droneBuzzSynth = new Tone.FMSynth({
+        harmonicity: 3,
+        modulationIndex: 12,
+        envelope: { attack: 0.005, decay: 0.05, sustain: 0, release: 0.05 }
+    }).toDestination();
+    this.droneBuzzSynth.volume.value = -16;
+
+    this.heavySynth = new Tone.MembraneSynth({
+        pitchDecay: 0.3,
+        octaves: 3,
+        envelope: { attack: 0.01, decay: 0.8, sustain: 0 }
+    }).toDestination();
+    this.heavySynth.volume.value = -6;
+
+    // Sniper: rising whine while charging, then a crack
+    this.sniperChargeSynth = new Tone.Synth({
+        oscillator: { type: "sine" },
+        envelope: { attack: 0.05, decay: 0, sustain: 1, release: 0.05 }
+    }).toDestination();
+    this.sniperChargeSynth.volume.value = -16;
+
+    this.sniperFireNoise = new Tone.NoiseSynth({
+        noise: { type: "white" },
+        envelope: { attack: 0.001, decay: 0.25, sustain: 0 }
+    }).toDestination();
+    this.sniperFireNoise.volume.value = -10;
+
+    // Grapple refused by a heavy's field: dull buzz
+    this.blockedSynth = new Tone.Synth({
+        oscillator: { type: "sawtooth" },
+        envelope: { attack: 0.005, decay: 0.15, sustain: 0, release: 0.05 }
+    }).toDestination();
+    this.blockedSynth.volume.value = -14;
+
+    // 7. ABILITIES
+    // EMP: deep hit plus a noise burst swept shut like a power-down
+    this.empSynth = new Tone.MembraneSynth({
+        pitchDecay: 0.4,
+        octaves: 6,
+        envelope: { attack: 0.001, decay: 0.6, sustain: 0 }
+    }).toDestination();
+    this.empSynth.volume.value = -4;
+
+    this.empFilter = new Tone.Filter(6000, "lowpass").toDestination();
+    this.empNoise = new Tone.NoiseSynth({
+        noise: { type: "pink" },
+        envelope: { attack: 0.005, decay: 0.5, sustain: 0 }
+    }).connect(this.empFilter);
+    this.empNoise.volume.value = -10;
+
+    // Lure: bright rising chirps
+    this.lureSynth = new Tone.Synth({
+        oscillator: { type: "sine" },
+        envelope: { attack: 0.005, decay: 0.08, sustain: 0, release: 0.1 }
+    }).toDestination();
+    this.lureSynth.volume.value = -10;
+
+    // Ability not ready: short low double blip
+    this.deniedSynth = new Tone.Synth({
+        oscillator: { type: "square" },
+        envelope: { attack: 0.005, decay: 0.06, sustain: 0, release: 0.02 }
+    }).toDestination();
+    this.deniedSynth.volume.value = -18;
+
+    // 8. SHIELD
+    // Hit: metallic zap, lower the fewer charges are left
+    this.shieldSynth = new Tone.FMSynth({
+        harmonicity: 1.5,
+        modulationIndex: 20,
+        envelope: { attack: 0.001, decay: 0.3, sustain: 0, release: 0.1 }
+    }).toDestination();
+    this.shieldSynth.volume.value = -6;
+
+    this.shieldNoise = new Tone.NoiseSynth({
+        noise: { type: "white" },
+        envelope: { attack: 0.001, decay: 0.12, sustain: 0 }
+    }).toDestination();
+    this.shieldNoise.volume.value = -14;
+
+    // Recharge: soft rising fifth
+    this.rechargeSynth = new Tone.PolySynth(Tone.Synth, {
+        oscillator: { type: "sine" },
+        envelope: { attack: 0.05, decay: 0.2, sustain: 0.2, release: 0.6 }
+    }).toDestination();
+    this.rechargeSynth.volume.value = -12;
+
     this.isInitialized = true;
   }
 
+  // Plays the cues for everything published on a bus. Returns the unsubscribe.
+  listen(bus: EventBus<GameplayEvent>) {
+    return bus.onAny(event => {
+      switch (event.type) {
+        case 'jump':
+        case 'wallJump': this.playJump(); break;
+        case 'grappleFire': this.playGrapple(); break;
+        case 'grappleBlocked': this.playGrappleBlocked(); break;
+        case 'starCollected': this.playCollect(event.starType, event.chainStep); break;
+        case 'chainComplete': this.playChainComplete(); break;
+        case 'trick': this.playTrick(event.multiplier); break;
+        case 'sentinelCrash':
+        case 'sentinelDestroyed': this.playExplosion(); break;
+        case 'sentinelAggro': this.playSentinelAggro(event.sentinelType, event.distance); break;
+        case 'sniperCharge': this.playSniperCharge(event.distance, SNIPER_CHARGE_TIME); break;
+        case 'sniperFire': this.playSniperFire(event.distance); break;
+        case 'empPulse': this.playEmpPulse(); break;
+        case 'lureThrown': this.playLureThrown(); break;
+        case 'lureExpired': this.playLureExpired(); break;
+        case 'abilityDenied': this.playAbilityDenied(); break;
+        // A fatal hit is heard as the run ending
+        case 'playerHit': if (!event.fatal) this.playShieldHit(event.charges); break;
+        case 'shieldRecharged': this.playShieldRecharged(); break;
+        case 'checkpoint': this.playCheckpoint(); break;
+        case 'lapComplete': this.playLapComplete(); break;
+        case 'cleared': this.playRunCleared(); break;
+        case 'timeUp': this.playTimeUp(); break;
+        // The drone follows the closest sentinel while a run is live
+        case 'status': this.updateSentinelDrone(event.status.proximity); break;
+        case 'gameOver': this.stopSentinelDrone(); break;
+      }
+    });
+  }
+
   playJump() {
     if (!this.isInitialized) this.init();
     this.jumpSynth?.triggerAttackRelease("C2", "8n"); // C2 is audible, C1 is sub-bass
@@ -93,10 +250,50 @@ class AudioService {
     this.grappleNoise?.triggerAttackRelease("32n");
   }
 
-  playCollect() {
+  // chainStep: how far into a chain collected in order (0 when out of order)
+  playCollect(type: StarType = 'normal', chainStep = 0) {
     if (!this.isInitialized) this.init();
-    // Play a quick major triad arpeggio feel
-    this.collectSynth?.triggerAttackRelease(["C6", "E6", "G6"], "16n");
+    const now = Tone.now();
+    switch (type) {
+      case 'normal':
+        // Play a quick major triad arpeggio feel
+        this.collectSynth?.triggerAttackRelease(["C6", "E6", "G6"], "16n");
+        break;
+      case 'spire':
+        // Big, bright chord a beat long
+        this.collectSynth?.triggerAttackRelease(["C6", "E6", "G6", "C7"], "8n", now);
+        this.collectSynth?.triggerAttackRelease(["G6", "C7"], "8n", now + 0.12);
+        break;
+      case 'chain':
+        this.collectSynth?.triggerAttackRelease(chainStep > 0 ? CHAIN_NOTES[(chainStep - 1) % CHAIN_NOTES.length] : "C6", "16n");
+        break;
+      case 'flash':
+        // Quick glittery run
+        ["E6", "G6", "B6", "E7"].forEach((note, i) => {
+          this.collectSynth?.triggerAttackRelease(note, "32n", now + i * 0.04);
+        });
+        break;
+      case 'void':
+        // Dark minor chord, falling away
+        this.collectSynth?.triggerAttackRelease(["C5", "Eb5", "Gb5"], "8n", now);
+        this.rechargeSynth?.triggerAttackRelease("C4", "4n", now + 0.1);
+        break;
+    }
+  }
+
+  // Climbs with the combo multiplier
+  playTrick(multiplier: number) {
+    if (!this.isInitialized) this.init();
+    const step = Math.min(CHAIN_NOTES.length - 1, Math.floor((multiplier - 1) * 2));
+    this.rechargeSynth?.triggerAttackRelease(Tone.Frequency(CHAIN_NOTES[step]).transpose(-12).toNote(), "16n");
+  }
+
+  playChainComplete() {
+    if (!this.isInitialized) this.init();
+    const now = Tone.now();
+    ["C6", "E6", "G6", "C7"].forEach((note, i) => {
+      this.collectSynth?.triggerAttackRelease(note, "16n", now + i * 0.06);
+    });
   }
 
   playExplosion() {
@@ -105,6 +302,143 @@ class AudioService {
       this.explosionNoise?.triggerAttackRelease("8n");
   }
 
+  // Note velocity for a sentinel cue at this distance (-18dB at the edge), or null when out of earshot
+  private sentinelCueVelocity(distance: number): number | null {
+      if (distance > SENTINEL_EARSHOT) return null;
+      return Tone.dbToGain(-(distance / SENTINEL_EARSHOT) * 18);
+  }
+
+  playSentinelAggro(type: SentinelType, distance: number) {
+      if (!this.isInitialized) this.init();
+      const velocity = this.sentinelCueVelocity(distance);
+      if (velocity === null) return;
+      const now = Tone.now();
+
+      switch (type) {
+          case 'seeker':
+              // Glitchy stab
+              this.sentinelCueSynth?.triggerAttackRelease("A3", "32n", now, velocity);
+              this.sentinelCueSynth?.triggerAttackRelease("A4", "32n", now + 0.06, velocity);
+              break;
+          case 'patroller':
+              // Sonar ping
+              this.sentinelCueSynth?.triggerAttackRelease("E5", "8n", now, velocity * 0.6);
+              break;
+          case 'drone':
+              // Swarm chatter
+              for (let i = 0; i < 3; i++) {
+                  this.droneBuzzSynth?.triggerAttackRelease("C6", "64n", now + i * 0.05, velocity);
+              }
+              break;
+          case 'hunter':
+              // Descending lock-on blips
+              this.sentinelCueSynth?.triggerAttackRelease("G4", "32n", now, velocity);
+              this.sentinelCueSynth?.triggerAttackRelease("D4", "32n", now + 0.08, velocity);
+              this.sentinelCueSynth?.triggerAttackRelease("G3", "32n", now + 0.16, velocity);
+              break;
+          case 'sniper':
+              this.sentinelCueSynth?.triggerAttackRelease("B5", "64n", now, velocity * 0.5);
+              break;
+          case 'heavy':
+              // Deep thud you feel more than hear
+              this.heavySynth?.triggerAttackRelease("C1", "4n", now, velocity);
+              break;
+      }
+  }
+
+  playSniperCharge(distance: number, duration: number) {
+      if (!this.isInitialized) this.init();
+      const velocity = this.sentinelCueVelocity(distance);
+      if (velocity === null || !this.sniperChargeSynth) return;
+      const now = Tone.now();
+      this.sniperChargeSynth.triggerAttack(300, now, velocity);
+      this.sniperChargeSynth.frequency.exponentialRampTo(1800, duration, now);
+      this.sniperChargeSynth.triggerRelease(now + duration);
+  }
+
+  playSniperFire(distance: number) {
+      if (!this.isInitialized) this.init();
+      const velocity = this.sentinelCueVelocity(distance);
+      if (velocity === null) return;
+      this.sniperFireNoise?.triggerAttackRelease("16n", Tone.now(), velocity);
+  }
+
+  playGrappleBlocked() {
+      if (!this.isInitialized) this.init();
+      this.blockedSynth?.triggerAttackRelease("F1", "16n");
+  }
+
+  playEmpPulse() {
+      if (!this.isInitialized) this.init();
+      const now = Tone.now();
+      this.empSynth?.triggerAttackRelease("A0", "4n", now);
+      if (this.empFilter && this.empNoise) {
+          this.empFilter.frequency.cancelScheduledValues(now);
+          this.empFilter.frequency.setValueAtTime(6000, now);
+          this.empFilter.frequency.exponentialRampTo(200, 0.5, now);
+          this.empNoise.triggerAttackRelease("4n", now);
+      }
+  }
+
+  playLureThrown() {
+      if (!this.isInitialized) this.init();
+      const now = Tone.now();
+      ["E5", "A5", "E6"].forEach((note, i) => this.lureSynth?.triggerAttackRelease(note, "32n", now + i * 0.07));
+  }
+
+  playLureExpired() {
+      if (!this.isInitialized) this.init();
+      this.lureSynth?.triggerAttackRelease("A4", "16n", Tone.now(), 0.5);
+  }
+
+  playAbilityDenied() {
+      if (!this.isInitialized) this.init();
+      const now = Tone.now();
+      this.deniedSynth?.triggerAttackRelease("C3", "64n", now);
+      this.deniedSynth?.triggerAttackRelease("C3", "64n", now + 0.08);
+  }
+
+  playShieldHit(chargesLeft: number) {
+      if (!this.isInitialized) this.init();
+      const notes = ["C2", "G2", "C3", "G3"];
+      this.shieldSynth?.triggerAttackRelease(notes[Math.min(chargesLeft, notes.length - 1)], "8n");
+      this.shieldNoise?.triggerAttackRelease("16n");
+  }
+
+  playShieldRecharged() {
+      if (!this.isInitialized) this.init();
+      const now = Tone.now();
+      this.rechargeSynth?.triggerAttackRelease("C5", "8n", now);
+      this.rechargeSynth?.triggerAttackRelease("G5", "8n", now + 0.1);
+  }
+
+  playCheckpoint() {
+      if (!this.isInitialized) this.init();
+      this.rechargeSynth?.triggerAttackRelease("A5", "16n");
+  }
+
+  playLapComplete() {
+      if (!this.isInitialized) this.init();
+      const now = Tone.now();
+      this.rechargeSynth?.triggerAttackRelease("E5", "16n", now);
+      this.rechargeSynth?.triggerAttackRelease("A5", "8n", now + 0.08);
+  }
+
+  playRunCleared() {
+      if (!this.isInitialized) this.init();
+      const now = Tone.now();
+      ["C5", "E5", "G5", "C6"].forEach((note, i) => {
+          this.rechargeSynth?.triggerAttackRelease(note, "8n", now + i * 0.12);
+      });
+  }
+
+  playTimeUp() {
+      if (!this.isInitialized) this.init();
+      const now = Tone.now();
+      this.deniedSynth?.triggerAttackRelease("G3", "8n", now);
+      this.deniedSynth?.triggerAttackRelease("C3", "4n", now + 0.2);
+  }
+
   updateSentinelDrone(distance: number) {
       if (!this.isInitialized || !this.sentinelGain || !this.sentinelLFO) return;
 
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { RunEndCause, RunRecord } from '../types';
+import { DIFFICULTY_PRESETS, easeDifficulty } from '../simulation/difficulty';
+import { difficultyService } from './difficultyService';
+
+const run = (cause: RunEndCause, survivalTime = 10): RunRecord => ({
+  id: `${cause}-${survivalTime}`, score: 0, seed: 1, wispColor: '#fff', mode: 'survival', difficulty: 'normal',
+  ease: 0, date: '2026-01-01T00:00:00.000Z', cause, survivalTime, styleScore: 0, district: 'downtown'
+});
+
+describe('adaptive difficulty', () => {
+  difficultyService.select('normal');
+  difficultyService.setAdaptive(true);
+
+  it('eases off after early deaths in a row', () => {
+    expect(difficultyService.resolve([run('sentinel'), run('sniperBeam')]))
+      .toEqual(easeDifficulty(DIFFICULTY_PRESETS.normal, 1));
+  });
+
+  it("doesn't count quit runs as early deaths", () => {
+    expect(difficultyService.resolve([run('quit'), run('quit'), run('quit')])).toEqual(DIFFICULTY_PRESETS.normal);
+  });
+
+  it("doesn't let a quit run break the streak", () => {
+    expect(difficultyService.resolve([run('sentinel'), run('quit'), run('sentinel')]))
+      .toEqual(easeDifficulty(DIFFICULTY_PRESETS.normal, 1));
+  });
+
+  it('stops at the first run that lasted', () => {
+    expect(difficultyService.resolve([run('sentinel'), run('sentinel', 60), run('sentinel')]))
+      .toEqual(DIFFICULTY_PRESETS.normal);
+  });
+});
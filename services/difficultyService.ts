@@ -0,0 +1,130 @@
+import { useSyncExternalStore } from 'react';
+import { RunRecord } from '../types';
+import {
+  CustomDifficulty,
+  DEFAULT_CUSTOM_DIFFICULTY,
+  DIFFICULTY_IDS,
+  DIFFICULTY_PRESETS,
+  Difficulty,
+  DifficultyId,
+  EARLY_DEATH_TIME,
+  createCustomDifficulty,
+  easeDifficulty,
+  getEaseSteps
+} from '../simulation/difficulty';
+import { isObject, isOneOf } from '../simulation/json';
+import { readStored, writeStored } from './storage';
+
+const STORAGE_KEY = 'neon-wisp:difficulty';
+
+export interface DifficultySettings {
+  selected: DifficultyId;
+  custom: CustomDifficulty;
+  // Ease off after repeated early deaths
+  adaptive: boolean;
+}
+
+// Slider ranges for the custom difficulty
+export const CUSTOM_LIMITS: Record<keyof CustomDifficulty, { min: number; max: number; step: number }> = {
+  spawnRate: { min: 0.5, max: 2, step: 0.1 },
+  sentinelCount: { min: 0.5, max: 2, step: 0.1 },
+  sentinelSpeed: { min: 0.5, max: 1.5, step: 0.05 },
+  wispSpeed: { min: 0.75, max: 1.5, step: 0.05 },
+  shieldCharges: { min: 1, max: 9, step: 1 }
+};
+
+const clampCustom = (value: unknown): CustomDifficulty => {
+  const custom = { ...DEFAULT_CUSTOM_DIFFICULTY };
+  if (!isObject(value)) return custom;
+  for (const key of Object.keys(CUSTOM_LIMITS) as (keyof CustomDifficulty)[]) {
+    const { min, max } = CUSTOM_LIMITS[key];
+    const stored = value[key];
+    if (typeof stored === 'number') custom[key] = Math.min(max, Math.max(min, stored));
+  }
+  return custom;
+};
+
+// Early deaths in a row at this difficulty, newest run first. Only Survival runs end in death;
+// quitting isn't dying, so a quit run neither counts nor breaks the streak.
+const countEarlyDeaths = (runs: RunRecord[], id: DifficultyId) => {
+  let count = 0;
+  for (const run of runs) {
+    if (run.cause === 'quit') continue;
+    if (run.mode !== 'survival' || run.difficulty !== id || run.survivalTime >= EARLY_DEATH_TIME) break;
+    count++;
+  }
+  return count;
+};
+
+const freshSettings = (): DifficultySettings => ({ selected: 'normal', custom: { ...DEFAULT_CUSTOM_DIFFICULTY }, adaptive: false });
+
+const readSettings = (stored: unknown): DifficultySettings => {
+  if (!isObject(stored)) return freshSettings();
+  return {
+    selected: isOneOf(DIFFICULTY_IDS, stored.selected) ? stored.selected : 'normal',
+    custom: clampCustom(stored.custom),
+    adaptive: stored.adaptive === true
+  };
+};
+
+class DifficultyService {
+  private settings: DifficultySettings | null = null;
+  private version = 0;
+  private listeners = new Set<() => void>();
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  // Bumped on every settings change (for useSyncExternalStore)
+  getVersion = () => this.version;
+
+  getSettings(): DifficultySettings {
+    if (!this.settings) this.settings = this.load();
+    return this.settings;
+  }
+
+  select(selected: DifficultyId) {
+    this.update({ selected });
+  }
+
+  setCustom(custom: Partial<CustomDifficulty>) {
+    this.update({ custom: clampCustom({ ...this.getSettings().custom, ...custom }) });
+  }
+
+  setAdaptive(adaptive: boolean) {
+    this.update({ adaptive });
+  }
+
+  // The difficulty the next run is played at, given the run history (newest first)
+  resolve(runs: RunRecord[]): Difficulty {
+    const { selected, custom, adaptive } = this.getSettings();
+    const base = selected === 'custom' ? createCustomDifficulty(custom) : DIFFICULTY_PRESETS[selected];
+    return adaptive ? easeDifficulty(base, getEaseSteps(countEarlyDeaths(runs, selected))) : base;
+  }
+
+  private update(change: Partial<DifficultySettings>) {
+    // A new object so subscribers see changed settings
+    this.settings = { ...this.getSettings(), ...change };
+    this.version++;
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  private load(): DifficultySettings {
+    return readStored(STORAGE_KEY, readSettings, freshSettings());
+  }
+
+  private save() {
+    writeStored(STORAGE_KEY, this.settings);
+  }
+}
+
+export const difficultyService = new DifficultyService();
+
+// Re-renders the caller whenever the difficulty settings change
+export const useDifficultySettings = (): DifficultySettings => {
+  useSyncExternalStore(difficultyService.subscribe, difficultyService.getVersion);
+  return difficultyService.getSettings();
+};
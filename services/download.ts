@@ -0,0 +1,12 @@
+// Revoking the URL straight after click() can cancel the download in some browsers
+const REVOKE_DELAY_MS = 10_000;
+
+// Saves `text` as a JSON file through a throwaway link
+export const downloadJson = (filename: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,30 @@
+import { Vector3 } from 'three';
+import { EventBus } from '../simulation/eventBus';
+import { GameEvent, RunStatus } from '../simulation/gameSimulation';
+import { GameMode } from '../simulation/gameModes';
+import { DistrictId } from '../simulation/districts';
+import { Replay } from '../simulation/replay';
+import { GameOverInfo } from '../types';
+
+// Everything that happens in a run, on one channel. The simulation publishes its
+// tick events; GameScene adds what only the live view knows (the run starting and
+// ending, the sampled HUD status, where the wisp is). Audio, music, HUD, stats and
+// App each subscribe to what they need instead of having callbacks passed down.
+export type GameplayEvent =
+  | GameEvent
+  // The live run was reset to tick 0; status is how it stands before the first tick
+  | { type: 'runStarted'; mode: GameMode; status: RunStatus }
+  // Sampled at 10Hz
+  | { type: 'status'; status: RunStatus }
+  // Every tick
+  | { type: 'wispMoved'; position: Vector3 }
+  | { type: 'districtChanged'; district: DistrictId }
+  // Sent once per run, whatever ended it (quitting included)
+  | { type: 'gameOver'; info: GameOverInfo; replay: Replay };
+
+// The live run
+export const gameplayBus = new EventBus<GameplayEvent>();
+
+// A replay being watched: only its simulation's events, played at normal pace, so
+// it sounds and looks like the run did without touching the HUD, stats or history
+export const replayBus = new EventBus<GameplayEvent>();
@@ -0,0 +1,49 @@
+import { GhostKey, GhostPath, isBetterGhost, matchesGhostKey, readGhostPath } from '../simulation/ghost';
+import { isArray } from '../simulation/json';
+import { readStored, writeStored } from './storage';
+
+const STORAGE_KEY = 'neon-wisp:ghosts';
+// Paths are a few KB per minute of play; keep only the most recently raced
+const MAX_GHOSTS = 10;
+
+const readGhosts = (stored: unknown): GhostPath[] =>
+  isArray(stored) ? stored.map(readGhostPath).filter((ghost): ghost is GhostPath => ghost !== null) : [];
+
+// One ghost per city, mode and difficulty (see GhostKey): your best run there, or a
+// line imported from someone else
+class GhostService {
+  private ghosts: GhostPath[] | null = null;
+
+  getGhost(key: GhostKey): GhostPath | null {
+    return this.getGhosts().find(g => matchesGhostKey(g, key)) ?? null;
+  }
+
+  // Keeps the run if it beats the stored ghost for its key. Returns whether it did.
+  submit(ghost: GhostPath): boolean {
+    if (!isBetterGhost(ghost, this.getGhost(ghost))) return false;
+    this.setGhost(ghost);
+    return true;
+  }
+
+  // Replaces the ghost for the path's key outright (imported rivals)
+  setGhost(ghost: GhostPath) {
+    this.ghosts = [ghost, ...this.getGhosts().filter(g => !matchesGhostKey(g, ghost))].slice(0, MAX_GHOSTS);
+    this.save();
+  }
+
+  // Most recently stored first
+  private getGhosts(): GhostPath[] {
+    if (!this.ghosts) this.ghosts = this.load();
+    return this.ghosts;
+  }
+
+  private load(): GhostPath[] {
+    return readStored(STORAGE_KEY, readGhosts, []);
+  }
+
+  private save() {
+    writeStored(STORAGE_KEY, this.ghosts);
+  }
+}
+
+export const ghostService = new GhostService();
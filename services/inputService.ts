@@ -0,0 +1,476 @@
+import { useSyncExternalStore } from 'react';
+import { ActionBindings, BindingSlot, InputAction, InputBinding, InputProfile, MobileInputState } from '../types';
+import { isArray, isObject } from '../simulation/json';
+import { readStored, writeStored } from './storage';
+
+const STORAGE_KEY = 'neon-wisp:input';
+const STORAGE_VERSION = 1;
+export const DEFAULT_PROFILE = 'DEFAULT';
+
+const STICK_DEADZONE = 0.15;
+// An axis has to travel this far to count as a button press or to be captured
+const AXIS_PRESS_THRESHOLD = 0.5;
+const AXIS_CAPTURE_THRESHOLD = 0.6;
+
+// Display order for the rebinding table
+export const INPUT_ACTIONS: InputAction[] = [
+  'moveForward', 'moveBack', 'moveLeft', 'moveRight',
+  'lookUp', 'lookDown', 'lookLeft', 'lookRight',
+  'jump', 'grapple', 'emp', 'lure', 'pause'
+];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  moveForward: 'MOVE FORWARD',
+  moveBack: 'MOVE BACK',
+  moveLeft: 'STRAFE LEFT',
+  moveRight: 'STRAFE RIGHT',
+  lookUp: 'LOOK UP',
+  lookDown: 'LOOK DOWN',
+  lookLeft: 'LOOK LEFT',
+  lookRight: 'LOOK RIGHT',
+  jump: 'JUMP / GLIDE',
+  grapple: 'GRAPPLE',
+  emp: 'EMP PULSE',
+  lure: 'LURE BEACON',
+  pause: 'PAUSE'
+};
+
+const key = (code: string): InputBinding => ({ device: 'keyboard', code });
+const button = (index: number): InputBinding => ({ device: 'gamepadButton', button: index });
+const axis = (index: number, direction: 1 | -1): InputBinding => ({ device: 'gamepadAxis', axis: index, direction });
+
+// Mouse look is handled by pointer lock, so it isn't an action binding
+const DEFAULT_BINDINGS: ActionBindings = {
+  moveForward: { keyboard: [key('KeyW')], gamepad: [axis(1, -1)] },
+  moveBack: { keyboard: [key('KeyS')], gamepad: [axis(1, 1)] },
+  moveLeft: { keyboard: [key('KeyA')], gamepad: [axis(0, -1)] },
+  moveRight: { keyboard: [key('KeyD')], gamepad: [axis(0, 1)] },
+  lookUp: { keyboard: [key('ArrowUp')], gamepad: [axis(3, -1)] },
+  lookDown: { keyboard: [key('ArrowDown')], gamepad: [axis(3, 1)] },
+  lookLeft: { keyboard: [key('ArrowLeft')], gamepad: [axis(2, -1)] },
+  lookRight: { keyboard: [key('ArrowRight')], gamepad: [axis(2, 1)] },
+  jump: { keyboard: [key('Space')], gamepad: [button(0)] },
+  grapple: { keyboard: [{ device: 'mouse', button: 0 }], gamepad: [button(5), button(7)] },
+  emp: { keyboard: [key('KeyQ')], gamepad: [button(2)] },
+  lure: { keyboard: [key('KeyE')], gamepad: [button(3)] },
+  pause: { keyboard: [key('KeyP')], gamepad: [button(9)] }
+};
+
+// One tick of merged input from every device
+export interface InputFrame {
+  move: { x: number; y: number }; // y+ is forward
+  look: { x: number; y: number }; // rate, y+ looks down
+  jump: boolean;
+  grapple: boolean;
+  emp: boolean;
+  lure: boolean;
+  pause: boolean; // true only on the tick it was pressed
+}
+
+export interface ControlHint {
+  keys: string;
+  label: string;
+}
+
+// --- Labels ---
+
+const GAMEPAD_BUTTON_LABELS = [
+  'A / X', 'B / O', 'X / SQUARE', 'Y / TRIANGLE', 'LB / L1', 'RB / R1', 'LT / L2', 'RT / R2',
+  'BACK', 'START', 'L3', 'R3', 'D-UP', 'D-DOWN', 'D-LEFT', 'D-RIGHT'
+];
+
+const MOUSE_LABELS = ['L-CLICK', 'M-CLICK', 'R-CLICK'];
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: 'UP', ArrowDown: 'DOWN', ArrowLeft: 'LEFT', ArrowRight: 'RIGHT',
+  Escape: 'ESC', Backquote: '`', Minus: '-', Equal: '=', BracketLeft: '[', BracketRight: ']',
+  Semicolon: ';', Quote: "'", Comma: ',', Period: '.', Slash: '/', Backslash: '\\'
+};
+
+const ARROW_LABELS = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+
+const describeKey = (code: string) => {
+  if (KEY_LABELS[code]) return KEY_LABELS[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  // ShiftLeft -> L-SHIFT
+  const side = code.match(/^(.*)(Left|Right)$/);
+  if (side) return `${side[2][0]}-${side[1].toUpperCase()}`;
+  return code.toUpperCase();
+};
+
+const stickName = (axisIndex: number) =>
+  axisIndex < 2 ? 'L-STICK' : axisIndex < 4 ? 'R-STICK' : `AXIS ${axisIndex}`;
+
+export const describeBinding = (binding: InputBinding): string => {
+  switch (binding.device) {
+    case 'keyboard':
+      return describeKey(binding.code);
+    case 'mouse':
+      return MOUSE_LABELS[binding.button] ?? `MOUSE ${binding.button + 1}`;
+    case 'gamepadButton':
+      return GAMEPAD_BUTTON_LABELS[binding.button] ?? `BUTTON ${binding.button}`;
+    case 'gamepadAxis': {
+      const horizontal = binding.axis % 2 === 0;
+      const dir = horizontal ? (binding.direction > 0 ? 'RIGHT' : 'LEFT') : (binding.direction > 0 ? 'DOWN' : 'UP');
+      return `${stickName(binding.axis)} ${dir}`;
+    }
+  }
+};
+
+// Combined label for a group of actions, e.g. the four move keys -> "WASD"
+const describeActions = (profile: InputProfile, actions: InputAction[], slot: BindingSlot): string => {
+  const labels: string[] = [];
+  actions.forEach(action => {
+    profile.bindings[action][slot].forEach(b => {
+      // A whole stick reads better than its four directions
+      const label = b.device === 'gamepadAxis' && actions.length > 1 ? stickName(b.axis) : describeBinding(b);
+      if (!labels.includes(label)) labels.push(label);
+    });
+  });
+  if (ARROW_LABELS.every(l => labels.includes(l)) && labels.length === ARROW_LABELS.length) return 'ARROWS';
+  return labels.every(l => l.length === 1) ? labels.join('') : labels.join(' / ');
+};
+
+// Label for a single action's bindings, e.g. "Q"
+export const describeAction = (profile: InputProfile, action: InputAction, slot: BindingSlot): string =>
+  describeActions(profile, [action], slot);
+
+const HINT_GROUPS: { actions: InputAction[]; label: string }[] = [
+  { actions: ['moveForward', 'moveLeft', 'moveBack', 'moveRight'], label: 'MOVE' },
+  { actions: ['lookUp', 'lookLeft', 'lookDown', 'lookRight'], label: 'LOOK' },
+  { actions: ['jump'], label: 'JUMP / GLIDE' },
+  { actions: ['grapple'], label: 'GRAPPLE' },
+  { actions: ['emp'], label: 'EMP PULSE' },
+  { actions: ['lure'], label: 'LURE BEACON' },
+  { actions: ['pause'], label: 'PAUSE' }
+];
+
+// Control hints generated from the active bindings; unbound actions are left out
+export const getControlHints = (profile: InputProfile, slot: BindingSlot): ControlHint[] =>
+  HINT_GROUPS
+    .map(group => ({ keys: describeActions(profile, group.actions, slot), label: group.label }))
+    .filter(hint => hint.keys.length > 0);
+
+// --- Storage validation ---
+
+const isBinding = (value: unknown): value is InputBinding => {
+  if (!isObject(value)) return false;
+  switch (value.device) {
+    case 'keyboard': return typeof value.code === 'string';
+    case 'mouse':
+    case 'gamepadButton': return typeof value.button === 'number';
+    case 'gamepadAxis': return typeof value.axis === 'number' && (value.direction === 1 || value.direction === -1);
+    default: return false;
+  }
+};
+
+const cloneBindings = (bindings: ActionBindings): ActionBindings => JSON.parse(JSON.stringify(bindings));
+
+// Fills gaps from the defaults, so profiles saved before an action existed still work
+const normalizeBindings = (raw: unknown): ActionBindings => {
+  const bindings = cloneBindings(DEFAULT_BINDINGS);
+  INPUT_ACTIONS.forEach(action => {
+    const slots = isObject(raw) ? raw[action] : undefined;
+    (['keyboard', 'gamepad'] as BindingSlot[]).forEach(slot => {
+      const list = isObject(slots) ? slots[slot] : undefined;
+      if (isArray(list)) bindings[action][slot] = list.filter(isBinding);
+    });
+  });
+  return bindings;
+};
+
+const sameBinding = (a: InputBinding, b: InputBinding) => JSON.stringify(a) === JSON.stringify(b);
+
+const slotOf = (binding: InputBinding): BindingSlot =>
+  binding.device === 'keyboard' || binding.device === 'mouse' ? 'keyboard' : 'gamepad';
+
+const applyDeadzone = (value: number) => (Math.abs(value) > STICK_DEADZONE ? value : 0);
+
+const getGamepads = (): Gamepad[] =>
+  (navigator.getGamepads ? Array.from(navigator.getGamepads()) : []).filter((p): p is Gamepad => !!p);
+
+interface StoredInput {
+  active: string;
+  profiles: InputProfile[];
+}
+
+const freshInput = (): StoredInput => ({
+  active: DEFAULT_PROFILE,
+  profiles: [{ name: DEFAULT_PROFILE, bindings: cloneBindings(DEFAULT_BINDINGS) }]
+});
+
+const readInput = (stored: unknown): StoredInput => {
+  const fresh = freshInput();
+  if (!isObject(stored) || !isArray(stored.profiles)) return fresh;
+  const profiles: InputProfile[] = stored.profiles.flatMap(p =>
+    isObject(p) && typeof p.name === 'string' ? [{ name: p.name, bindings: normalizeBindings(p.bindings) }] : []);
+  // The default profile always exists
+  if (!profiles.some(p => p.name === DEFAULT_PROFILE)) profiles.unshift(fresh.profiles[0]);
+  const active = profiles.find(p => p.name === stored.active)?.name ?? DEFAULT_PROFILE;
+  return { active, profiles };
+};
+
+class InputService {
+  private keys = new Set<string>();
+  private mouseButtons = new Set<number>();
+  private listening = false;
+  private pauseHeld = false;
+  private state: StoredInput | null = null;
+  private version = 0;
+  private listeners = new Set<() => void>();
+
+  // Starts tracking keyboard and mouse; safe to call more than once
+  init() {
+    if (this.listening) return;
+    this.listening = true;
+    window.addEventListener('keydown', e => this.keys.add(e.code));
+    window.addEventListener('keyup', e => this.keys.delete(e.code));
+    window.addEventListener('mousedown', e => this.mouseButtons.add(e.button));
+    window.addEventListener('mouseup', e => this.mouseButtons.delete(e.button));
+    // Key-ups are lost while the window is unfocused
+    window.addEventListener('blur', () => {
+      this.keys.clear();
+      this.mouseButtons.clear();
+    });
+  }
+
+  // --- Profiles ---
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  // Bumped on every profile change (for useSyncExternalStore)
+  getVersion = () => this.version;
+
+  getProfiles(): InputProfile[] {
+    return this.getState().profiles;
+  }
+
+  getActiveProfile(): InputProfile {
+    const state = this.getState();
+    return state.profiles.find(p => p.name === state.active) ?? state.profiles[0];
+  }
+
+  setActiveProfile(name: string) {
+    const state = this.getState();
+    if (!state.profiles.some(p => p.name === name)) return;
+    state.active = name;
+    this.commit();
+  }
+
+  // Copies the active bindings into a new (or overwritten) profile and switches to it
+  saveProfileAs(name: string) {
+    const trimmed = name.trim().toUpperCase();
+    if (!trimmed) throw new Error('Profile name is empty');
+    const state = this.getState();
+    const profile: InputProfile = { name: trimmed, bindings: cloneBindings(this.getActiveProfile().bindings) };
+    state.profiles = [...state.profiles.filter(p => p.name !== trimmed), profile];
+    state.active = trimmed;
+    this.commit();
+  }
+
+  deleteProfile(name: string) {
+    if (name === DEFAULT_PROFILE) return;
+    const state = this.getState();
+    state.profiles = state.profiles.filter(p => p.name !== name);
+    if (state.active === name) state.active = DEFAULT_PROFILE;
+    this.commit();
+  }
+
+  resetActiveProfile() {
+    this.updateActive(() => cloneBindings(DEFAULT_BINDINGS));
+  }
+
+  // Replaces an action's bindings in the binding's slot. The binding is taken
+  // away from any other action that had it, so one input never does two things.
+  setBinding(action: InputAction, binding: InputBinding) {
+    const slot = slotOf(binding);
+    this.updateActive(bindings => {
+      INPUT_ACTIONS.forEach(other => {
+        bindings[other][slot] = bindings[other][slot].filter(b => !sameBinding(b, binding));
+      });
+      bindings[action][slot] = [binding];
+      return bindings;
+    });
+  }
+
+  clearBinding(action: InputAction, slot: BindingSlot) {
+    this.updateActive(bindings => {
+      bindings[action][slot] = [];
+      return bindings;
+    });
+  }
+
+  // Waits for the next key / mouse button (keyboard slot) or gamepad button / stick
+  // push (gamepad slot). Escape cancels. Returns a function that stops listening.
+  captureBinding(slot: BindingSlot, onCapture: (binding: InputBinding) => void, onCancel: () => void): () => void {
+    let done = false;
+    let frame = 0;
+
+    const finish = (binding: InputBinding | null) => {
+      if (done) return;
+      stop();
+      if (binding) onCapture(binding);
+      else onCancel();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      if (e.code === 'Escape') finish(null);
+      else if (slot === 'keyboard') finish({ device: 'keyboard', code: e.code });
+    };
+    const handleMouseDown = (e: MouseEvent) => {
+      e.preventDefault();
+      finish({ device: 'mouse', button: e.button });
+    };
+
+    // Inputs already held when capture starts don't count
+    const held = new Set<string>();
+    const scanGamepads = (record: boolean) => {
+      for (const pad of getGamepads()) {
+        for (let i = 0; i < pad.buttons.length; i++) {
+          const id = `b${i}`;
+          if (!pad.buttons[i].pressed) held.delete(id);
+          else if (record) held.add(id);
+          else if (!held.has(id)) return finish({ device: 'gamepadButton', button: i });
+        }
+        for (let i = 0; i < pad.axes.length; i++) {
+          const direction = pad.axes[i] > 0 ? 1 : -1;
+          const id = `a${i}${direction}`;
+          if (Math.abs(pad.axes[i]) < AXIS_CAPTURE_THRESHOLD) {
+            held.delete(`a${i}1`);
+            held.delete(`a${i}-1`);
+          } else if (record) held.add(id);
+          else if (!held.has(id)) return finish({ device: 'gamepadAxis', axis: i, direction });
+        }
+      }
+    };
+    const pollGamepads = () => {
+      scanGamepads(false);
+      if (!done) frame = requestAnimationFrame(pollGamepads);
+    };
+
+    const stop = () => {
+      done = true;
+      cancelAnimationFrame(frame);
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('mousedown', handleMouseDown, true);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    if (slot === 'keyboard') {
+      // Deferred so the click that started the capture isn't captured itself
+      setTimeout(() => { if (!done) window.addEventListener('mousedown', handleMouseDown, true); }, 0);
+    } else {
+      scanGamepads(true);
+      frame = requestAnimationFrame(pollGamepads);
+    }
+    return stop;
+  }
+
+  // --- Polling ---
+
+  // Reads every device once per tick. Touch look is consumed (reset) here.
+  poll(mobile: MobileInputState | undefined, dt: number): InputFrame {
+    const bindings = this.getActiveProfile().bindings;
+    const pads = getGamepads();
+
+    const valueOf = (binding: InputBinding): number => {
+      switch (binding.device) {
+        case 'keyboard':
+          return this.keys.has(binding.code) ? 1 : 0;
+        case 'mouse':
+          return this.mouseButtons.has(binding.button) ? 1 : 0;
+        case 'gamepadButton':
+          return pads.some(p => p.buttons[binding.button]?.pressed) ? 1 : 0;
+        case 'gamepadAxis':
+          return pads.reduce((max, p) => Math.max(max, applyDeadzone(p.axes[binding.axis] ?? 0) * binding.direction), 0);
+      }
+    };
+
+    // Strongest of an action's bindings across both slots, 0..1
+    const analog = (action: InputAction) => {
+      let value = 0;
+      for (const b of bindings[action].keyboard) value = Math.max(value, valueOf(b));
+      for (const b of bindings[action].gamepad) value = Math.max(value, valueOf(b));
+      return value;
+    };
+    const pressed = (action: InputAction) => analog(action) > AXIS_PRESS_THRESHOLD;
+
+    const frame: InputFrame = {
+      move: { x: analog('moveRight') - analog('moveLeft'), y: analog('moveForward') - analog('moveBack') },
+      look: { x: analog('lookRight') - analog('lookLeft'), y: analog('lookDown') - analog('lookUp') },
+      jump: pressed('jump'),
+      grapple: pressed('grapple'),
+      emp: pressed('emp'),
+      lure: pressed('lure'),
+      pause: false
+    };
+
+    const pauseDown = pressed('pause');
+    frame.pause = pauseDown && !this.pauseHeld;
+    this.pauseHeld = pauseDown;
+
+    // Touch controls aren't rebindable, they just add in
+    if (mobile) {
+      frame.move.x += mobile.move.x;
+      frame.move.y -= mobile.move.y; // joystick y+ is down
+
+      // Touch look is a drag distance, not a rate: it was tuned as 70x per 60Hz frame,
+      // so convert to a rate over this tick to keep the same feel at any tick rate
+      const touchLookScale = 70 / (60 * dt);
+      frame.look.x += mobile.look.x * touchLookScale;
+      frame.look.y += mobile.look.y * touchLookScale;
+      mobile.look.x = 0;
+      mobile.look.y = 0;
+
+      if (mobile.jump) frame.jump = true;
+      if (mobile.grapple) frame.grapple = true;
+      if (mobile.emp) frame.emp = true;
+      if (mobile.lure) frame.lure = true;
+    }
+
+    return frame;
+  }
+
+  // --- Persistence ---
+
+  private getState(): StoredInput {
+    if (!this.state) this.state = this.load();
+    return this.state;
+  }
+
+  private updateActive(update: (bindings: ActionBindings) => ActionBindings) {
+    const state = this.getState();
+    const active = this.getActiveProfile();
+    // New objects so subscribers see a changed profile
+    const profile: InputProfile = { name: active.name, bindings: update(cloneBindings(active.bindings)) };
+    state.profiles = state.profiles.map(p => (p === active ? profile : p));
+    this.commit();
+  }
+
+  private commit() {
+    this.version++;
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  private load(): StoredInput {
+    return readStored(STORAGE_KEY, readInput, freshInput());
+  }
+
+  private save() {
+    writeStored(STORAGE_KEY, { version: STORAGE_VERSION, ...this.state });
+  }
+}
+
+export const inputService = new InputService();
+
+// Re-renders the caller whenever bindings or profiles change
+export const useInputProfile = (): InputProfile => {
+  useSyncExternalStore(inputService.subscribe, inputService.getVersion);
+  return inputService.getActiveProfile();
+};
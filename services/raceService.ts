@@ -0,0 +1,83 @@
+import { CourseId, RaceResult } from '../simulation/raceCourse';
+import { isNumberArray, isObject } from '../simulation/json';
+import { readStored, writeStored } from './storage';
+
+const STORAGE_KEY = 'neon-wisp:race-bests';
+
+export interface CourseBest {
+  // Whole race, over the course's laps
+  total: number | null;
+  lap: number;
+  // Splits of the best lap, to race the next laps against
+  splits: number[];
+}
+
+// The generated circuit differs per city, and so do the buildings around the rest
+const courseKey = (course: CourseId, seed: number) => `${course}:${seed}`;
+
+const isCourseBest = (value: unknown): value is CourseBest =>
+  isObject(value) &&
+  (value.total === null || typeof value.total === 'number') &&
+  typeof value.lap === 'number' &&
+  isNumberArray(value.splits);
+
+const readBests = (stored: unknown): Record<string, CourseBest> => {
+  const bests: Record<string, CourseBest> = {};
+  if (isObject(stored)) {
+    for (const [key, value] of Object.entries(stored)) {
+      if (isCourseBest(value)) bests[key] = value;
+    }
+  }
+  return bests;
+};
+
+// Best race and best lap per course and city
+class RaceService {
+  private bests: Record<string, CourseBest> | null = null;
+
+  getBest(course: CourseId, seed: number): CourseBest | null {
+    return this.getBests()[courseKey(course, seed)] ?? null;
+  }
+
+  // Folds a race into the course bests. Returns whether anything improved.
+  submit(result: RaceResult, seed: number): boolean {
+    if (result.lapTimes.length === 0) return false;
+    const key = courseKey(result.course, seed);
+    const previous = this.getBests()[key] ?? null;
+
+    const lapIndex = result.lapTimes.indexOf(Math.min(...result.lapTimes));
+    const lap = result.lapTimes[lapIndex];
+    // Only a finished race has a total
+    const total = result.finished ? result.lapTimes.reduce((sum, t) => sum + t, 0) : null;
+
+    const betterLap = !previous || lap < previous.lap;
+    const betterTotal = total !== null && (previous?.total == null || total < previous.total);
+    if (!betterLap && !betterTotal) return false;
+
+    this.bests = {
+      ...this.getBests(),
+      [key]: {
+        total: betterTotal ? total : previous?.total ?? null,
+        lap: betterLap ? lap : previous!.lap,
+        splits: betterLap ? result.lapSplits[lapIndex] : previous!.splits
+      }
+    };
+    this.save();
+    return true;
+  }
+
+  private getBests(): Record<string, CourseBest> {
+    if (!this.bests) this.bests = this.load();
+    return this.bests;
+  }
+
+  private load(): Record<string, CourseBest> {
+    return readStored(STORAGE_KEY, readBests, {});
+  }
+
+  private save() {
+    writeStored(STORAGE_KEY, this.bests);
+  }
+}
+
+export const raceService = new RaceService();
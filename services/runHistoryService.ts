@@ -0,0 +1,119 @@
+import { RUN_END_CAUSES, RunRecord } from '../types';
+import { DISTRICTS } from '../simulation/districts';
+import { DIFFICULTY_IDS } from '../simulation/difficulty';
+import { GAME_MODE_IDS } from '../simulation/gameModes';
+import { COURSES } from '../simulation/raceCourse';
+import { isArray, isKeyOf, isObject, isOneOf, parseJson } from '../simulation/json';
+import { readStored, writeStored } from './storage';
+
+const STORAGE_KEY = 'neon-wisp:runs';
+const MAX_RUNS = 100;
+const EXPORT_VERSION = 1;
+
+export interface PersonalBests {
+  // Survival runs
+  score: RunRecord | null;
+  survivalTime: RunRecord | null;
+  // Quickest Time Attack clear
+  clearTime: RunRecord | null;
+  // Any mode
+  styleScore: RunRecord | null;
+}
+
+export const getPersonalBests = (runs: RunRecord[]): PersonalBests => {
+  let score: RunRecord | null = null;
+  let survivalTime: RunRecord | null = null;
+  let clearTime: RunRecord | null = null;
+  let styleScore: RunRecord | null = null;
+  for (const run of runs) {
+    if (run.styleScore > 0 && (!styleScore || run.styleScore > styleScore.styleScore)) styleScore = run;
+    if (run.mode === 'timeAttack' && run.cause === 'cleared') {
+      if (!clearTime || run.survivalTime < clearTime.survivalTime) clearTime = run;
+    }
+    if (run.mode !== 'survival') continue;
+    if (!score || run.score > score.score) score = run;
+    if (!survivalTime || run.survivalTime > survivalTime.survivalTime) survivalTime = run;
+  }
+  return { score, survivalTime, clearTime, styleScore };
+};
+
+// Checks an untrusted object (localStorage or an imported file) is a usable run
+const isRunRecord = (value: unknown): value is RunRecord =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.score === 'number' &&
+  typeof value.survivalTime === 'number' &&
+  typeof value.seed === 'number' &&
+  typeof value.wispColor === 'string' &&
+  isOneOf(RUN_END_CAUSES, value.cause) &&
+  typeof value.date === 'string' &&
+  isKeyOf(DISTRICTS, value.district);
+
+// Runs logged before modes, difficulty settings and style scoring existed were Survival on Normal, with no style
+const withDefaults = (run: RunRecord): RunRecord => ({
+  ...run,
+  mode: GAME_MODE_IDS.includes(run.mode) ? run.mode : 'survival',
+  difficulty: DIFFICULTY_IDS.includes(run.difficulty) ? run.difficulty : 'normal',
+  ease: typeof run.ease === 'number' ? run.ease : 0,
+  styleScore: typeof run.styleScore === 'number' ? run.styleScore : 0,
+  race: run.race && run.race.course in COURSES && Array.isArray(run.race.lapTimes) ? run.race : undefined
+});
+
+class RunHistoryService {
+  private runs: RunRecord[] | null = null;
+
+  // Newest first
+  getRuns(): RunRecord[] {
+    if (!this.runs) this.runs = this.load();
+    return this.runs;
+  }
+
+  record(run: Omit<RunRecord, 'id' | 'date'>): RunRecord {
+    const record: RunRecord = {
+      ...run,
+      id: `run_${Date.now()}_${Math.floor(Math.random() * 1e6)}`,
+      date: new Date().toISOString()
+    };
+    this.runs = [record, ...this.getRuns()].slice(0, MAX_RUNS);
+    this.save();
+    return record;
+  }
+
+  clear() {
+    this.runs = [];
+    this.save();
+  }
+
+  exportJson(): string {
+    return JSON.stringify({ version: EXPORT_VERSION, runs: this.getRuns() }, null, 2);
+  }
+
+  // Merges runs from an exported file. Returns how many were new; throws on malformed input.
+  importJson(json: string): number {
+    const data = parseJson(json);
+    // Accept both the export wrapper and a bare array of runs
+    const incoming = isObject(data) ? data.runs : data;
+    if (!isArray(incoming)) throw new Error('No run history found in file');
+
+    const runs = incoming.filter(isRunRecord).map(withDefaults);
+    if (runs.length === 0 && incoming.length > 0) throw new Error('File contains no valid runs');
+
+    const known = new Set(this.getRuns().map(r => r.id));
+    const added = runs.filter(r => !known.has(r.id));
+    this.runs = [...this.getRuns(), ...added]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, MAX_RUNS);
+    this.save();
+    return added.length;
+  }
+
+  private load(): RunRecord[] {
+    return readStored(STORAGE_KEY, stored => (isArray(stored) ? stored.filter(isRunRecord).map(withDefaults) : []), []);
+  }
+
+  private save() {
+    writeStored(STORAGE_KEY, this.runs);
+  }
+}
+
+export const runHistory = new RunHistoryService();
@@ -0,0 +1,109 @@
+import { EventBus } from '../simulation/eventBus';
+import { isObject } from '../simulation/json';
+import { readStored, writeStored } from './storage';
+import { TRICK_LABELS, TrickId } from '../simulation/style';
+import { STAR_TYPES } from '../simulation/starTypes';
+import { RunEndCause, StarType } from '../types';
+import { GameplayEvent } from './gameplayBus';
+
+const STORAGE_KEY = 'neon-wisp:stats';
+
+// Lifetime counters across every live run, built up from gameplay events
+export interface LifetimeStats {
+  runs: number;
+  // Seconds of play
+  playTime: number;
+  jumps: number;
+  wallJumps: number;
+  grapples: number;
+  stars: Record<StarType, number>;
+  chains: number;
+  tricks: Record<TrickId, number>;
+  // Hits taken, fatal ones included
+  hits: number;
+  sentinelsDestroyed: number;
+  // How each run ended
+  endings: Record<RunEndCause, number>;
+}
+
+const countsOf = <K extends string>(keys: readonly K[]) =>
+  Object.fromEntries(keys.map(key => [key, 0])) as Record<K, number>;
+
+const emptyStats = (): LifetimeStats => ({
+  runs: 0,
+  playTime: 0,
+  jumps: 0,
+  wallJumps: 0,
+  grapples: 0,
+  stars: countsOf(Object.keys(STAR_TYPES) as StarType[]),
+  chains: 0,
+  tricks: countsOf(Object.keys(TRICK_LABELS) as TrickId[]),
+  hits: 0,
+  sentinelsDestroyed: 0,
+  endings: countsOf<RunEndCause>(['sentinel', 'sniperBeam', 'cleared', 'timeUp', 'quit'])
+});
+
+// Stored stats may predate a counter (or be hand-edited): keep only well-formed numbers
+const mergeCounts = <K extends string>(base: Record<K, number>, stored: unknown): Record<K, number> => {
+  const merged = { ...base };
+  if (!isObject(stored)) return merged;
+  for (const key of Object.keys(base) as K[]) {
+    const value = stored[key];
+    if (typeof value === 'number' && value >= 0) merged[key] = value;
+  }
+  return merged;
+};
+
+const readStats = (stored: unknown): LifetimeStats => {
+  const stats = emptyStats();
+  if (!isObject(stored)) return stats;
+  const { stars, tricks, endings, ...totals } = stats;
+  return {
+    ...mergeCounts(totals, stored),
+    stars: mergeCounts(stars, stored.stars),
+    tricks: mergeCounts(tricks, stored.tricks),
+    endings: mergeCounts(endings, stored.endings)
+  };
+};
+
+class StatsService {
+  private stats: LifetimeStats | null = null;
+
+  getStats(): LifetimeStats {
+    if (!this.stats) this.stats = this.load();
+    return this.stats;
+  }
+
+  // Counts what happens on the bus. Stored once per run, at game over. Returns the unsubscribe.
+  listen(bus: EventBus<GameplayEvent>) {
+    return bus.onAny(event => {
+      const stats = this.getStats();
+      switch (event.type) {
+        case 'jump': stats.jumps++; break;
+        case 'wallJump': stats.wallJumps++; break;
+        case 'grappleFire': stats.grapples++; break;
+        case 'starCollected': stats.stars[event.starType]++; break;
+        case 'chainComplete': stats.chains++; break;
+        case 'trick': stats.tricks[event.trick]++; break;
+        case 'playerHit': stats.hits++; break;
+        case 'sentinelDestroyed': stats.sentinelsDestroyed++; break;
+        case 'gameOver':
+          stats.runs++;
+          stats.playTime += event.info.survivalTime;
+          stats.endings[event.info.cause]++;
+          this.save();
+          break;
+      }
+    });
+  }
+
+  private load(): LifetimeStats {
+    return readStored(STORAGE_KEY, readStats, emptyStats());
+  }
+
+  private save() {
+    writeStored(STORAGE_KEY, this.stats);
+  }
+}
+
+export const statsService = new StatsService();
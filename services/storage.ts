@@ -0,0 +1,22 @@
+// localStorage as the services use it. Storage can be disabled, full (private mode,
+// quota) or hold something corrupted or from an older version; none of that should
+// break the game, it only means nothing persists.
+
+// What's stored under `key`, parsed and passed through `read` to validate it; `fallback`
+// when nothing is stored or it can't be read
+export const readStored = <T>(key: string, read: (stored: unknown) => T, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? read(JSON.parse(raw)) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const writeStored = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Quota exceeded / private mode: just won't persist
+  }
+};
@@ -0,0 +1,46 @@
+import { Vector3 } from 'three';
+
+// The wisp's active abilities. They're paid for with energy: every star collected
+// adds one, on top of the score. This is the tuning; GameSimulation applies them.
+
+export type AbilityId = 'emp' | 'lure';
+
+export interface Ability {
+  id: AbilityId;
+  label: string;
+  // Energy spent per use
+  cost: number;
+  // Seconds before it can be used again
+  cooldown: number;
+}
+
+export const ABILITIES: Record<AbilityId, Ability> = {
+  // Knocks out every sentinel around the wisp; the closest ones don't come back
+  emp: { id: 'emp', label: 'EMP PULSE', cost: 8, cooldown: 12 },
+  // Thrown where the grapple would hit; draws sentinels in (and into each other)
+  lure: { id: 'lure', label: 'LURE BEACON', cost: 4, cooldown: 8 }
+};
+
+export const ABILITY_IDS = Object.keys(ABILITIES) as AbilityId[];
+
+// Sentinels inside this are destroyed, out to EMP_RADIUS they're stunned
+export const EMP_DESTROY_RADIUS = 25;
+export const EMP_RADIUS = 60;
+export const EMP_STUN_TIME = 4;
+
+// How long a beacon lasts and how far away sentinels hear it
+export const LURE_DURATION = 12;
+export const LURE_RADIUS = 150;
+
+export interface LureBeacon {
+  position: Vector3;
+  // Seconds left
+  timer: number;
+}
+
+// Energy and cooldowns, for the HUD
+export interface AbilityStatus {
+  energy: number;
+  // Seconds until each ability is ready again (0 when ready)
+  cooldowns: Record<AbilityId, number>;
+}
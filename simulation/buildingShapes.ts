@@ -0,0 +1,165 @@
+import { BuildingData, BuildingPart, BuildingPartKind } from '../types';
+import { SeededRandom } from './random';
+import { Block } from './roadNetwork';
+
+// Compound buildings: every building is a list of axis-aligned boxes (parts) standing
+// on its lot. The spatial grid stores parts, so collision and grapple rays never need
+// to know which building a box belongs to.
+
+export type BuildingShape = 'box' | 'setback' | 'podium' | 'overhang';
+
+// Gap range (alley width) a skybridge may span
+const BRIDGE_MIN_GAP = 2;
+const BRIDGE_MAX_GAP = 30;
+const BRIDGE_WIDTH = 6;
+const BRIDGE_HEIGHT = 3;
+
+// Parts with an exposed underside that the wisp can hit from below
+export const isElevatedPart = (part: BuildingPart) => part.kind === 'overhang' || part.kind === 'bridge';
+
+const makePart = (
+  kind: BuildingPartKind,
+  buildingId: string,
+  minX: number, minY: number, minZ: number,
+  maxX: number, maxY: number, maxZ: number
+): BuildingPart => ({
+  position: [(minX + maxX) / 2, (minY + maxY) / 2, (minZ + maxZ) / 2],
+  scale: [maxX - minX, maxY - minY, maxZ - minZ],
+  kind,
+  buildingId
+});
+
+const partTop = (part: BuildingPart) => part.position[1] + part.scale[1] / 2;
+
+const partsOverlap = (a: BuildingPart, b: BuildingPart) =>
+  [0, 1, 2].every(i => Math.abs(a.position[i] - b.position[i]) < (a.scale[i] + b.scale[i]) / 2);
+
+// Recompute a building's bounds after its parts change
+const updateBounds = (building: BuildingData) => {
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  building.parts.forEach(p => {
+    minX = Math.min(minX, p.position[0] - p.scale[0] / 2);
+    maxX = Math.max(maxX, p.position[0] + p.scale[0] / 2);
+    minY = Math.min(minY, p.position[1] - p.scale[1] / 2);
+    maxY = Math.max(maxY, p.position[1] + p.scale[1] / 2);
+    minZ = Math.min(minZ, p.position[2] - p.scale[2] / 2);
+    maxZ = Math.max(maxZ, p.position[2] + p.scale[2] / 2);
+  });
+  building.position = [(minX + maxX) / 2, (minY + maxY) / 2, (minZ + maxZ) / 2];
+  building.scale = [maxX - minX, maxY - minY, maxZ - minZ];
+};
+
+// Highest part, where rooftop stars go
+export const getRoofPart = (building: BuildingData): BuildingPart =>
+  building.parts.reduce((best, p) => (partTop(p) > partTop(best) ? p : best));
+
+export const buildShape = (
+  rng: SeededRandom,
+  shape: BuildingShape,
+  lot: Block,
+  height: number,
+  id: string,
+  color: string
+): BuildingData => {
+  const parts: BuildingPart[] = [];
+  const { minX, maxX, minZ, maxZ } = lot;
+  const width = maxX - minX;
+  const depth = maxZ - minZ;
+
+  if (shape === 'setback') {
+    // Stepped tiers, each inset from the one below
+    const tiers = 2 + rng.int(2);
+    let x0 = minX, x1 = maxX, z0 = minZ, z1 = maxZ;
+    let y = 0;
+    for (let i = 0; i < tiers; i++) {
+      const top = i === tiers - 1 ? height : y + (height - y) * rng.range(0.45, 0.65);
+      parts.push(makePart(i === 0 ? 'body' : 'tier', id, x0, y, z0, x1, top, z1));
+      y = top;
+      const insetX = (x1 - x0) * rng.range(0.1, 0.2);
+      const insetZ = (z1 - z0) * rng.range(0.1, 0.2);
+      x0 += insetX; x1 -= insetX;
+      z0 += insetZ; z1 -= insetZ;
+    }
+  } else if (shape === 'podium') {
+    // Wide base with a slimmer tower somewhere on its roof
+    const podiumTop = Math.min(height * 0.3, rng.range(15, 40));
+    parts.push(makePart('podium', id, minX, 0, minZ, maxX, podiumTop, maxZ));
+    const towerW = width * rng.range(0.5, 0.7);
+    const towerD = depth * rng.range(0.5, 0.7);
+    const tx = minX + rng.next() * (width - towerW);
+    const tz = minZ + rng.next() * (depth - towerD);
+    parts.push(makePart('tower', id, tx, podiumTop, tz, tx + towerW, height, tz + towerD));
+  } else if (shape === 'overhang') {
+    // Upper floors cantilever out over one side of a narrower base
+    const side = rng.int(4);
+    const inset = Math.min(rng.range(4, 8), (side < 2 ? width : depth) * 0.3);
+    const baseTop = height * rng.range(0.5, 0.75);
+    parts.push(makePart('body', id,
+      side === 0 ? minX + inset : minX, 0, side === 2 ? minZ + inset : minZ,
+      side === 1 ? maxX - inset : maxX, baseTop, side === 3 ? maxZ - inset : maxZ));
+    parts.push(makePart('overhang', id, minX, baseTop, minZ, maxX, height, maxZ));
+  } else {
+    parts.push(makePart('body', id, minX, 0, minZ, maxX, height, maxZ));
+  }
+
+  const building: BuildingData = { position: [0, 0, 0], scale: [0, 0, 0], color, id, parts };
+  updateBounds(building);
+  return building;
+};
+
+// Join facing neighbours across the alley between them. The bridge becomes a part
+// of the first building. Each building gets at most one bridge.
+export const addSkybridges = (rng: SeededRandom, buildings: BuildingData[], chance: number) => {
+  if (chance <= 0) return;
+  const bridged = new Set<BuildingData>();
+
+  for (let i = 0; i < buildings.length; i++) {
+    for (let j = 0; j < buildings.length; j++) {
+      const a = buildings[i];
+      const b = buildings[j];
+      if (i === j || bridged.has(a) || bridged.has(b)) continue;
+
+      // Span between the ground parts
+      const pa = a.parts[0];
+      const pb = b.parts[0];
+      const aMaxX = pa.position[0] + pa.scale[0] / 2;
+      const bMinX = pb.position[0] - pb.scale[0] / 2;
+      const aMaxZ = pa.position[2] + pa.scale[2] / 2;
+      const bMinZ = pb.position[2] - pb.scale[2] / 2;
+
+      // b directly east (+X) or south (+Z) of a
+      const alongX = bMinX - aMaxX >= BRIDGE_MIN_GAP && bMinX - aMaxX <= BRIDGE_MAX_GAP;
+      const alongZ = bMinZ - aMaxZ >= BRIDGE_MIN_GAP && bMinZ - aMaxZ <= BRIDGE_MAX_GAP;
+      if (!alongX && !alongZ) continue;
+
+      // Shared span on the other axis
+      const axis = alongX ? 2 : 0;
+      const lo = Math.max(pa.position[axis] - pa.scale[axis] / 2, pb.position[axis] - pb.scale[axis] / 2);
+      const hi = Math.min(pa.position[axis] + pa.scale[axis] / 2, pb.position[axis] + pb.scale[axis] / 2);
+      if (hi - lo < BRIDGE_WIDTH + 2) continue;
+
+      const top = Math.min(partTop(pa), partTop(pb));
+      if (top < 25) continue;
+      if (rng.next() >= chance) continue;
+
+      const center = rng.range(lo + BRIDGE_WIDTH / 2 + 1, hi - BRIDGE_WIDTH / 2 - 1);
+      const y = top * rng.range(0.35, 0.8);
+      const y0 = y - BRIDGE_HEIGHT / 2;
+      const y1 = y + BRIDGE_HEIGHT / 2;
+      const c0 = center - BRIDGE_WIDTH / 2;
+      const c1 = center + BRIDGE_WIDTH / 2;
+
+      const bridge = alongX
+        ? makePart('bridge', a.id, aMaxX, y0, c0, bMinX, y1, c1)
+        : makePart('bridge', a.id, c0, y0, aMaxZ, c1, y1, bMinZ);
+      // Never pass through a third building sitting in the gap
+      if (buildings.some(c => c !== a && c !== b && c.parts.some(p => partsOverlap(p, bridge)))) continue;
+
+      a.parts.push(bridge);
+      updateBounds(a);
+      bridged.add(a);
+      bridged.add(b);
+    }
+  }
+};
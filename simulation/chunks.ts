@@ -0,0 +1,7 @@
+// World is split into square chunks on the XZ plane; everything streamed or
+// generated per chunk is keyed by these integer chunk coordinates.
+
+export const CHUNK_SIZE = 400;
+
+export const chunkKey = (cx: number, cz: number) => `${cx},${cz}`;
+export const toChunkCoord = (v: number) => Math.floor(v / CHUNK_SIZE);
@@ -0,0 +1,180 @@
+import { BuildingData, StarData, StarType } from '../types';
+import { SeededRandom, deriveSeed } from './random';
+import { DISTRICTS, DistrictId, DistrictRules, getChunkDistrict } from './districts';
+import { chunkKey, toChunkCoord } from './chunks';
+import { Block, ChunkRoads, generateChunkRoads } from './roadNetwork';
+import { addSkybridges, buildShape, getRoofPart } from './buildingShapes';
+import { CHAIN_ARC, CHAIN_CHANCE, CHAIN_LENGTH, CHAIN_MAX_SPAN, CHAIN_MIN_SPAN, SPIRE_STAR_CHANCE, VOID_STAR_CHANCE } from './starTypes';
+
+// Deterministic per-chunk city content. A chunk's roads, buildings and stars depend
+// only on (seed, cx, cz), so a chunk can be unloaded and regenerated identically later.
+// Buildings sit on lots carved out of the blocks between roads, aligned to the streets.
+
+// Smallest footprint worth building on
+const MIN_LOT = 8;
+
+// Keep the spawn point clear so the wisp doesn't start inside a tower
+const SPAWN_CLEARING = 50;
+
+export interface ChunkData {
+  key: string;
+  cx: number;
+  cz: number;
+  district: DistrictId;
+  roads: ChunkRoads;
+  buildings: BuildingData[];
+  stars: StarData[];
+}
+
+export const getDistrictAt = (seed: number, x: number, z: number): DistrictRules =>
+  DISTRICTS[getChunkDistrict(seed, toChunkCoord(x), toChunkCoord(z))];
+
+// Window layout gets its own stream per chunk so rendering never shifts gameplay content
+export const getChunkWindowSeed = (seed: number, cx: number, cz: number) => deriveSeed(seed, 'windows', cx, cz);
+
+// Stars float just above the roof they sit on
+const roofTop = (b: BuildingData) => {
+  const roof = getRoofPart(b);
+  return roof.position[1] + roof.scale[1] / 2 + 1.5;
+};
+
+export const generateStarOnBuilding = (rng: SeededRandom, b: BuildingData, id: string, type: StarType = 'normal'): StarData => {
+  const roof = getRoofPart(b);
+  const x = roof.position[0] + (rng.next() - 0.5) * roof.scale[0] * 1.2;
+  const z = roof.position[2] + (rng.next() - 0.5) * roof.scale[2] * 1.2;
+
+  return {
+    id,
+    position: [x, roofTop(b), z],
+    collected: false,
+    type
+  };
+};
+
+// A trail of chain stars arcing from one rooftop to the nearest one far enough away
+const generateChain = (rng: SeededRandom, buildings: BuildingData[], id: string): StarData[] => {
+  const from = rng.pick(buildings);
+  const [fx, , fz] = getRoofPart(from).position;
+  let to: BuildingData | null = null;
+  let best = CHAIN_MAX_SPAN;
+  for (const b of buildings) {
+    const [x, , z] = getRoofPart(b).position;
+    const span = Math.hypot(x - fx, z - fz);
+    if (span >= CHAIN_MIN_SPAN && span < best) {
+      best = span;
+      to = b;
+    }
+  }
+  if (!to) return [];
+
+  const [tx, , tz] = getRoofPart(to).position;
+  const fy = roofTop(from);
+  const ty = roofTop(to);
+  const stars: StarData[] = [];
+  for (let index = 0; index < CHAIN_LENGTH; index++) {
+    const t = index / (CHAIN_LENGTH - 1);
+    stars.push({
+      id: `${id}_${index}`,
+      position: [fx + (tx - fx) * t, fy + (ty - fy) * t + Math.sin(t * Math.PI) * CHAIN_ARC, fz + (tz - fz) * t],
+      collected: false,
+      type: 'chain',
+      chain: { id, index, length: CHAIN_LENGTH }
+    });
+  }
+  return stars;
+};
+
+// A chunk's stars: plain ones on random rooftops, then the rarer kinds
+export const generateStar = (seed: number, cx: number, cz: number, buildings: BuildingData[], count: number): StarData[] => {
+  const stars: StarData[] = [];
+  if (buildings.length === 0) return stars;
+  const rng = new SeededRandom(deriveSeed(seed, 'stars', cx, cz));
+  for (let i = 0; i < count; i++) {
+    stars.push(generateStarOnBuilding(rng, rng.pick(buildings), `star_${cx}_${cz}_${i}`));
+  }
+
+  if (rng.next() < SPIRE_STAR_CHANCE) {
+    const tallest = buildings.reduce((best, b) => (roofTop(b) > roofTop(best) ? b : best));
+    const roof = getRoofPart(tallest);
+    stars.push({ id: `star_${cx}_${cz}_spire`, position: [roof.position[0], roofTop(tallest), roof.position[2]], collected: false, type: 'spire' });
+  }
+  if (rng.next() < CHAIN_CHANCE) {
+    stars.push(...generateChain(rng, buildings, `chain_${cx}_${cz}`));
+  }
+  if (rng.next() < VOID_STAR_CHANCE) {
+    stars.push(generateStarOnBuilding(rng, rng.pick(buildings), `star_${cx}_${cz}_void`, 'void'));
+  }
+  return stars;
+};
+
+// Split a block into lots no larger than the district's lot size, leaving an alley between them
+const subdivideBlock = (rng: SeededRandom, block: Block, rules: DistrictRules, out: Block[]) => {
+  const w = block.maxX - block.minX;
+  const d = block.maxZ - block.minZ;
+  const [minLot, maxLot] = rules.width;
+  if (w <= maxLot && d <= maxLot) {
+    out.push(block);
+    return;
+  }
+
+  // Cut across the longer side
+  const alongX = w >= d;
+  const length = alongX ? w : d;
+  if (length < minLot * 2 + rules.spacing) {
+    out.push(block);
+    return;
+  }
+
+  const cut = rng.range(minLot, length - minLot - rules.spacing);
+  if (alongX) {
+    subdivideBlock(rng, { ...block, maxX: block.minX + cut }, rules, out);
+    subdivideBlock(rng, { ...block, minX: block.minX + cut + rules.spacing }, rules, out);
+  } else {
+    subdivideBlock(rng, { ...block, maxZ: block.minZ + cut }, rules, out);
+    subdivideBlock(rng, { ...block, minZ: block.minZ + cut + rules.spacing }, rules, out);
+  }
+};
+
+export const generateChunk = (seed: number, cx: number, cz: number): ChunkData => {
+  const district = getChunkDistrict(seed, cx, cz);
+  const rules = DISTRICTS[district];
+  const { roads, blocks } = generateChunkRoads(seed, cx, cz, rules.streetClosure);
+  const rng = new SeededRandom(deriveSeed(seed, 'buildings', cx, cz));
+  const buildings: BuildingData[] = [];
+
+  blocks.forEach(block => {
+    // Some blocks stay open as plazas
+    if (rng.next() < rules.plazaChance) return;
+
+    const lots: Block[] = [];
+    subdivideBlock(rng, block, rules, lots);
+    const blockBuildings: BuildingData[] = [];
+
+    lots.forEach(lot => {
+      if (rng.next() >= rules.lotFill) return;
+
+      const width = lot.maxX - lot.minX;
+      const depth = lot.maxZ - lot.minZ;
+      if (width < MIN_LOT || depth < MIN_LOT) return;
+
+      const x = (lot.minX + lot.maxX) / 2;
+      const z = (lot.minZ + lot.maxZ) / 2;
+      // Clear of the spawn point
+      if (Math.abs(x) < SPAWN_CLEARING + width / 2 && Math.abs(z) < SPAWN_CLEARING + depth / 2) return;
+
+      const [minHeight, maxHeight] = rules.height;
+      const height = minHeight + Math.pow(rng.next(), rules.heightBias) * (maxHeight - minHeight);
+
+      const id = `b_${cx}_${cz}_${buildings.length + blockBuildings.length}`;
+      blockBuildings.push(buildShape(rng, rng.pickWeighted(rules.shapes), lot, height, id, rules.bodyColor));
+    });
+
+    addSkybridges(rng, blockBuildings, rules.bridgeChance);
+    buildings.push(...blockBuildings);
+  });
+
+  // Stars draw from their own stream so they never perturb the layout
+  const stars = generateStar(seed, cx, cz, buildings, rules.starsPerChunk);
+
+  return { key: chunkKey(cx, cz), cx, cz, district, roads, buildings, stars };
+};
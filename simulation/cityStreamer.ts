@@ -0,0 +1,145 @@
+import { Vector3 } from 'three';
+import { BuildingPart, StarData } from '../types';
+import { SeededRandom } from './random';
+import { SpatialGrid, BuildingGrid } from './spatialGrid';
+import { StarField } from './starField';
+import { FLASH_CHANCE, FLASH_LIFETIME, REPLENISH_VOID_CHANCE } from './starTypes';
+import { ChunkData, generateChunk, generateStarOnBuilding, getDistrictAt } from './cityGenerator';
+import { chunkKey, toChunkCoord } from './chunks';
+import { RoadGraph } from './roadNetwork';
+import { DISTRICTS, DistrictRules } from './districts';
+
+// Keeps the chunks around the player resident: their buildings live in the shared
+// building grid (so collision only ever sees resident chunks), their streets in the
+// road graph and their stars in the star field. Distant chunks are dropped and
+// regenerated on demand.
+
+export const LOAD_RADIUS = 4;   // chunks loaded around the player (9x9)
+export const UNLOAD_RADIUS = 5; // hysteresis so chunk borders don't thrash
+const MAX_LOADS_PER_UPDATE = 2; // spread generation cost across ticks
+
+interface ResidentChunk extends ChunkData {
+  // Generated stars that made it into the star field (it can be full)
+  starIds: Set<string>;
+  // Stars added after load (replenishment), removed with the chunk
+  extraStarIds: Set<string>;
+}
+
+export class CityStreamer {
+  readonly grid: BuildingGrid = new SpatialGrid<BuildingPart>();
+  // Streets of the resident chunks, for patrols and navigation
+  readonly roads = new RoadGraph();
+  private chunks = new Map<string, ResidentChunk>();
+  // Stars already collected stay collected when their chunk reloads
+  private collectedStarIds = new Set<string>();
+  private centerX = 0;
+  private centerZ = 0;
+
+  // Bumped whenever the resident set changes, so renderers know to resync
+  version = 0;
+
+  constructor(readonly seed: number, private starField: StarField) {}
+
+  get centerChunk() {
+    return { cx: this.centerX, cz: this.centerZ };
+  }
+
+  // Drop everything and synchronously load the area around `pos` (run start / restart)
+  reset(pos: Vector3) {
+    this.chunks.forEach(chunk => this.unloadChunk(chunk));
+    this.collectedStarIds.clear();
+    this.starField.clear();
+    this.centerX = toChunkCoord(pos.x);
+    this.centerZ = toChunkCoord(pos.z);
+    this.forEachMissingChunk((cx, cz) => this.loadChunk(cx, cz), Infinity);
+    this.version++;
+  }
+
+  // Stream around the player. Returns true if the resident set changed.
+  update(pos: Vector3): boolean {
+    this.centerX = toChunkCoord(pos.x);
+    this.centerZ = toChunkCoord(pos.z);
+    let changed = false;
+
+    for (const chunk of Array.from(this.chunks.values())) {
+      const d = Math.max(Math.abs(chunk.cx - this.centerX), Math.abs(chunk.cz - this.centerZ));
+      if (d > UNLOAD_RADIUS) {
+        this.unloadChunk(chunk);
+        changed = true;
+      }
+    }
+
+    if (this.forEachMissingChunk((cx, cz) => this.loadChunk(cx, cz), MAX_LOADS_PER_UPDATE) > 0) {
+      changed = true;
+    }
+
+    if (changed) this.version++;
+    return changed;
+  }
+
+  // Visits missing chunks within LOAD_RADIUS nearest-first; returns how many were visited
+  private forEachMissingChunk(visit: (cx: number, cz: number) => void, limit: number): number {
+    const missing: [number, number, number][] = [];
+    for (let dx = -LOAD_RADIUS; dx <= LOAD_RADIUS; dx++) {
+      for (let dz = -LOAD_RADIUS; dz <= LOAD_RADIUS; dz++) {
+        const cx = this.centerX + dx;
+        const cz = this.centerZ + dz;
+        if (!this.chunks.has(chunkKey(cx, cz))) missing.push([cx, cz, dx * dx + dz * dz]);
+      }
+    }
+    missing.sort((a, b) => a[2] - b[2]);
+    const count = Math.min(limit, missing.length);
+    for (let i = 0; i < count; i++) visit(missing[i][0], missing[i][1]);
+    return count;
+  }
+
+  private loadChunk(cx: number, cz: number) {
+    const chunk: ResidentChunk = { ...generateChunk(this.seed, cx, cz), starIds: new Set(), extraStarIds: new Set() };
+    this.chunks.set(chunk.key, chunk);
+    chunk.buildings.forEach(b => b.parts.forEach(p => this.grid.insert(p)));
+    this.roads.addChunk(chunk.roads);
+    chunk.stars.forEach(s => {
+      if (!this.collectedStarIds.has(s.id) && this.starField.add(s)) chunk.starIds.add(s.id);
+    });
+  }
+
+  private unloadChunk(chunk: ResidentChunk) {
+    chunk.buildings.forEach(b => b.parts.forEach(p => this.grid.remove(p)));
+    this.roads.removeChunk(chunk.roads);
+    chunk.starIds.forEach(id => {
+      // Anything no longer live was picked up; stars that never fit come back on reload
+      if (this.starField.remove(id) === null) this.collectedStarIds.add(id);
+    });
+    chunk.extraStarIds.forEach(id => this.starField.remove(id));
+    this.chunks.delete(chunk.key);
+  }
+
+  isResident(x: number, z: number): boolean {
+    return this.chunks.has(chunkKey(toChunkCoord(x), toChunkCoord(z)));
+  }
+
+  // District rules at a world position (resident chunks answer from cache)
+  districtAt(x: number, z: number): DistrictRules {
+    const chunk = this.chunks.get(chunkKey(toChunkCoord(x), toChunkCoord(z)));
+    return chunk ? DISTRICTS[chunk.district] : getDistrictAt(this.seed, x, z);
+  }
+
+  residentChunks(): ChunkData[] {
+    return Array.from(this.chunks.values());
+  }
+
+  // Replenishment: drop a new star on a random resident rooftop. Flash stars
+  // appear only this way and expire FLASH_LIFETIME after `time`.
+  spawnStar(rng: SeededRandom, id: string, time: number): StarData | null {
+    const chunks = Array.from(this.chunks.values()).filter(c => c.buildings.length > 0);
+    if (chunks.length === 0) return null;
+    const chunk = rng.pick(chunks);
+    const roll = rng.next();
+    const type = roll < FLASH_CHANCE ? 'flash' : roll < FLASH_CHANCE + REPLENISH_VOID_CHANCE ? 'void' : 'normal';
+    const star = generateStarOnBuilding(rng, rng.pick(chunk.buildings), id, type);
+    if (type === 'flash') star.expiresAt = time + FLASH_LIFETIME;
+    if (!this.starField.add(star)) return null;
+    chunk.extraStarIds.add(star.id);
+    return star;
+  }
+}
@@ -0,0 +1,180 @@
+import { MAX_SENTINELS } from './sentinelStore';
+import { DEFAULT_SHIELD_RULES, ShieldRules } from './shield';
+import { MOVE_SPEED_BASE } from './wispPhysics';
+import { isObject, isOneOf } from './json';
+
+// How hard a run is. Everything that ramps up over a run is a curve over seconds of
+// play and stars collected; a preset is one set of curves plus the shield rules.
+// Replays carry the whole config, so tuning a preset never breaks old replays.
+
+export type DifficultyId = 'chill' | 'normal' | 'nightmare' | 'custom';
+
+// base + perSecond * time + perStar * score, clamped to [min, max] where given
+export interface DifficultyCurve {
+  base: number;
+  perSecond: number;
+  perStar: number;
+  min?: number;
+  max?: number;
+}
+
+export interface Difficulty {
+  id: DifficultyId;
+  // Seconds between sentinel spawns
+  spawnDelay: DifficultyCurve;
+  // Sentinels alive at once (rounded down, never above MAX_SENTINELS)
+  maxSentinels: DifficultyCurve;
+  // Speed of a newly spawned sentinel
+  sentinelSpeed: DifficultyCurve;
+  // The wisp's base move speed
+  wispSpeed: DifficultyCurve;
+  shield: ShieldRules;
+  // Steps eased off by adaptive mode (0: as designed)
+  ease: number;
+}
+
+export const evaluateCurve = (curve: DifficultyCurve, time: number, score: number) => {
+  const value = curve.base + curve.perSecond * time + curve.perStar * score;
+  return Math.min(curve.max ?? Infinity, Math.max(curve.min ?? -Infinity, value));
+};
+
+export const getMaxSentinels = (difficulty: Difficulty, time: number, score: number) =>
+  Math.min(MAX_SENTINELS, Math.floor(evaluateCurve(difficulty.maxSentinels, time, score)));
+
+export const DIFFICULTY_LABELS: Record<DifficultyId, string> = {
+  chill: 'CHILL',
+  normal: 'NORMAL',
+  nightmare: 'NIGHTMARE',
+  custom: 'CUSTOM'
+};
+
+export const DIFFICULTY_IDS = Object.keys(DIFFICULTY_LABELS) as DifficultyId[];
+
+// Player speed scales with score; sentinels start level with it and outgrow it
+const NORMAL: Difficulty = {
+  id: 'normal',
+  spawnDelay: { base: 5, perSecond: -0.02, perStar: 0, min: 1 },
+  maxSentinels: { base: 3, perSecond: 1 / 25, perStar: 0 },
+  sentinelSpeed: { base: 12, perSecond: 0.05, perStar: 0.2 },
+  wispSpeed: { base: MOVE_SPEED_BASE, perSecond: 0, perStar: MOVE_SPEED_BASE * 0.02 },
+  shield: DEFAULT_SHIELD_RULES,
+  ease: 0
+};
+
+export const DIFFICULTY_PRESETS: Record<Exclude<DifficultyId, 'custom'>, Difficulty> = {
+  chill: {
+    id: 'chill',
+    spawnDelay: { base: 8, perSecond: -0.02, perStar: 0, min: 3 },
+    maxSentinels: { base: 2, perSecond: 1 / 45, perStar: 0, max: 12 },
+    sentinelSpeed: { base: 9, perSecond: 0.03, perStar: 0.1, max: 25 },
+    wispSpeed: { base: MOVE_SPEED_BASE, perSecond: 0, perStar: MOVE_SPEED_BASE * 0.025 },
+    shield: { maxCharges: 5, rechargeTime: 10, invulnerableTime: 2.5, knockback: 40 },
+    ease: 0
+  },
+  normal: NORMAL,
+  nightmare: {
+    id: 'nightmare',
+    spawnDelay: { base: 3, perSecond: -0.03, perStar: 0, min: 0.5 },
+    maxSentinels: { base: 5, perSecond: 1 / 15, perStar: 0 },
+    sentinelSpeed: { base: 14, perSecond: 0.08, perStar: 0.25 },
+    wispSpeed: { base: MOVE_SPEED_BASE, perSecond: 0, perStar: MOVE_SPEED_BASE * 0.015 },
+    shield: { maxCharges: 1, rechargeTime: 0, invulnerableTime: 1, knockback: 50 },
+    ease: 0
+  }
+};
+
+// --- Custom ---
+
+// The title screen's sliders: multipliers on Normal, plus the shield size
+export interface CustomDifficulty {
+  spawnRate: number;
+  sentinelCount: number;
+  sentinelSpeed: number;
+  wispSpeed: number;
+  shieldCharges: number;
+}
+
+export const DEFAULT_CUSTOM_DIFFICULTY: CustomDifficulty = {
+  spawnRate: 1,
+  sentinelCount: 1,
+  sentinelSpeed: 1,
+  wispSpeed: 1,
+  shieldCharges: DEFAULT_SHIELD_RULES.maxCharges
+};
+
+const scaleCurve = (curve: DifficultyCurve, factor: number): DifficultyCurve => ({
+  base: curve.base * factor,
+  perSecond: curve.perSecond * factor,
+  perStar: curve.perStar * factor,
+  min: curve.min === undefined ? undefined : curve.min * factor,
+  max: curve.max === undefined ? undefined : curve.max * factor
+});
+
+export const createCustomDifficulty = (custom: CustomDifficulty): Difficulty => ({
+  ...NORMAL,
+  id: 'custom',
+  // A faster spawn rate is a shorter delay
+  spawnDelay: scaleCurve(NORMAL.spawnDelay, 1 / custom.spawnRate),
+  maxSentinels: scaleCurve(NORMAL.maxSentinels, custom.sentinelCount),
+  sentinelSpeed: scaleCurve(NORMAL.sentinelSpeed, custom.sentinelSpeed),
+  wispSpeed: scaleCurve(NORMAL.wispSpeed, custom.wispSpeed),
+  shield: { ...NORMAL.shield, maxCharges: custom.shieldCharges }
+});
+
+// --- Adaptive ---
+
+// A run shorter than this counts as an early death
+export const EARLY_DEATH_TIME = 45;
+// Early deaths in a row before easing off, and how far it goes
+const EARLY_DEATHS_PER_EASE = 2;
+const MAX_EASE = 3;
+
+// Steps to ease off after `earlyDeaths` early deaths in a row
+export const getEaseSteps = (earlyDeaths: number) =>
+  Math.min(MAX_EASE, Math.floor(earlyDeaths / EARLY_DEATHS_PER_EASE));
+
+// Fewer, slower, later sentinels and a quicker shield recharge per step
+export const easeDifficulty = (difficulty: Difficulty, steps: number): Difficulty => {
+  if (steps <= 0) return difficulty;
+  const { shield } = difficulty;
+  return {
+    ...difficulty,
+    spawnDelay: scaleCurve(difficulty.spawnDelay, 1 + 0.2 * steps),
+    maxSentinels: scaleCurve(difficulty.maxSentinels, 1 - 0.15 * steps),
+    sentinelSpeed: scaleCurve(difficulty.sentinelSpeed, 1 - 0.08 * steps),
+    shield: {
+      ...shield,
+      maxCharges: shield.maxCharges + Math.floor(steps / 2),
+      rechargeTime: shield.rechargeTime * (1 - 0.15 * steps)
+    },
+    ease: difficulty.ease + steps
+  };
+};
+
+// --- Files ---
+
+const isCurve = (value: unknown): value is DifficultyCurve =>
+  isObject(value) &&
+  typeof value.base === 'number' &&
+  typeof value.perSecond === 'number' &&
+  typeof value.perStar === 'number' &&
+  (value.min === undefined || typeof value.min === 'number') &&
+  (value.max === undefined || typeof value.max === 'number');
+
+const isShieldRules = (value: unknown): value is ShieldRules =>
+  isObject(value) &&
+  typeof value.maxCharges === 'number' &&
+  typeof value.rechargeTime === 'number' &&
+  typeof value.invulnerableTime === 'number' &&
+  typeof value.knockback === 'number';
+
+// Checks an untrusted object (a replay file) is a usable difficulty
+export const isDifficulty = (value: unknown): value is Difficulty =>
+  isObject(value) &&
+  isOneOf(DIFFICULTY_IDS, value.id) &&
+  isCurve(value.spawnDelay) &&
+  isCurve(value.maxSentinels) &&
+  isCurve(value.sentinelSpeed) &&
+  isCurve(value.wispSpeed) &&
+  isShieldRules(value.shield) &&
+  typeof value.ease === 'number';
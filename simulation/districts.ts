@@ -0,0 +1,167 @@
+import { SeededRandom, deriveSeed } from './random';
+import { BuildingShape } from './buildingShapes';
+
+// Districts give the city regional character. Each chunk belongs to exactly one
+// district, picked from a jittered Voronoi layout over groups of chunks, so the
+// answer only depends on (seed, cx, cz) like the rest of chunk generation.
+
+export type DistrictId = 'downtown' | 'industrial' | 'canal' | 'market';
+
+export interface DistrictRules {
+  id: DistrictId;
+  name: string;
+  accent: string; // HUD color
+  // Chance each local street is built over inside a chunk (bigger blocks)
+  streetClosure: number;
+  // Chance a whole block is left open as a plaza
+  plazaChance: number;
+  // Chance each lot gets a building
+  lotFill: number;
+  // Alley between neighbouring lots
+  spacing: number;
+  // Lot size range along each axis
+  width: [number, number];
+  height: [number, number];
+  // >1 skews heights towards the low end of the range
+  heightBias: number;
+  // Relative frequency of each building shape
+  shapes: [BuildingShape, number][];
+  // Chance each facing pair of neighbours is joined by a skybridge
+  bridgeChance: number;
+  bodyColor: string;
+  windowColors: string[];
+  windowDensity: number;
+  starsPerChunk: number;
+  sentinel: {
+    speedMultiplier: number;
+    aggroRange: number;
+  };
+}
+
+export const DISTRICTS: Record<DistrictId, DistrictRules> = {
+  // Tall, tight spires: lots of walls to run and grapple
+  downtown: {
+    id: 'downtown',
+    name: 'DOWNTOWN',
+    accent: '#00ffff',
+    streetClosure: 0,
+    plazaChance: 0.08,
+    lotFill: 0.9,
+    spacing: 8,
+    width: [25, 45],
+    height: [180, 480],
+    heightBias: 1.5,
+    shapes: [['box', 2], ['setback', 3], ['podium', 3], ['overhang', 1]],
+    bridgeChance: 0.25,
+    bodyColor: '#3a3a4a',
+    windowColors: ['#00ffff', '#ffffff', '#88ccff'],
+    windowDensity: 1,
+    starsPerChunk: 12,
+    sentinel: { speedMultiplier: 1.0, aggroRange: 150 }
+  },
+  // Wide, low warehouses with long open sightlines
+  industrial: {
+    id: 'industrial',
+    name: 'INDUSTRIAL',
+    accent: '#ffaa00',
+    streetClosure: 0.6,
+    plazaChance: 0.05,
+    lotFill: 0.75,
+    spacing: 12,
+    width: [45, 90],
+    height: [20, 80],
+    heightBias: 1,
+    shapes: [['box', 5], ['podium', 1], ['overhang', 1]],
+    bridgeChance: 0.15,
+    bodyColor: '#4a4238',
+    windowColors: ['#ffaa00', '#ff6600'],
+    windowDensity: 0.4,
+    starsPerChunk: 8,
+    sentinel: { speedMultiplier: 0.9, aggroRange: 200 }
+  },
+  // Near-empty gap: mostly plazas and a few pavilions, exposed but rich in stars
+  canal: {
+    id: 'canal',
+    name: 'CANAL',
+    accent: '#32ff99',
+    streetClosure: 0.5,
+    plazaChance: 0.8,
+    lotFill: 0.4,
+    spacing: 30,
+    width: [15, 30],
+    height: [10, 40],
+    heightBias: 1,
+    shapes: [['box', 3], ['overhang', 1]],
+    bridgeChance: 0,
+    bodyColor: '#2e4644',
+    windowColors: ['#32ff99'],
+    windowDensity: 0.5,
+    starsPerChunk: 18,
+    sentinel: { speedMultiplier: 1.2, aggroRange: 250 }
+  },
+  // Dense mid-rise clutter drenched in neon; sentinels lose sight quickly
+  market: {
+    id: 'market',
+    name: 'NEON MARKET',
+    accent: '#ff00ff',
+    streetClosure: 0,
+    plazaChance: 0.12,
+    lotFill: 0.95,
+    spacing: 5,
+    width: [16, 30],
+    height: [40, 130],
+    heightBias: 1.2,
+    shapes: [['box', 3], ['setback', 1], ['overhang', 3]],
+    bridgeChance: 0.35,
+    bodyColor: '#45344e',
+    windowColors: ['#ff00ff', '#00ffff', '#ffff00', '#ff3366'],
+    windowDensity: 2.5,
+    starsPerChunk: 15,
+    sentinel: { speedMultiplier: 0.85, aggroRange: 100 }
+  }
+};
+
+// District cells span this many chunks on a side
+const DISTRICT_CELL = 3;
+
+// Relative frequency of each district
+const DISTRICT_WEIGHTS: [DistrictId, number][] = [
+  ['downtown', 3],
+  ['industrial', 3],
+  ['canal', 1.5],
+  ['market', 2.5]
+];
+
+// Site of a district cell, in chunk units
+const getCellSite = (seed: number, gx: number, gz: number) => {
+  const rng = new SeededRandom(deriveSeed(seed, 'district', gx, gz));
+  return {
+    x: (gx + rng.next()) * DISTRICT_CELL,
+    z: (gz + rng.next()) * DISTRICT_CELL,
+    id: rng.pickWeighted(DISTRICT_WEIGHTS)
+  };
+};
+
+export const getChunkDistrict = (seed: number, cx: number, cz: number): DistrictId => {
+  // Runs always start among the spires
+  if (Math.abs(cx) <= 1 && Math.abs(cz) <= 1) return 'downtown';
+
+  const gx = Math.floor(cx / DISTRICT_CELL);
+  const gz = Math.floor(cz / DISTRICT_CELL);
+  const px = cx + 0.5;
+  const pz = cz + 0.5;
+  let best: DistrictId = 'downtown';
+  let bestDistSq = Infinity;
+
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dz = -1; dz <= 1; dz++) {
+      const site = getCellSite(seed, gx + dx, gz + dz);
+      const distSq = (site.x - px) ** 2 + (site.z - pz) ** 2;
+      if (distSq < bestDistSq) {
+        bestDistSq = distSq;
+        best = site.id;
+      }
+    }
+  }
+  return best;
+};
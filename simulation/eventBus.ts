@@ -0,0 +1,39 @@
+// A typed publish/subscribe channel for events discriminated by their `type`.
+// Headless: the simulation publishes to it without knowing who listens, and
+// subscribers (audio, music, HUD, stats) never reach into each other.
+
+type EventOfType<E extends { type: string }, T extends E['type']> = Extract<E, { type: T }>;
+
+// All a publisher needs to know about a bus
+export interface EventSink<E extends { type: string }> {
+  publish(event: E): void;
+}
+
+export class EventBus<E extends { type: string }> implements EventSink<E> {
+  private handlers = new Map<E['type'], Set<(event: E) => void>>();
+  private anyHandlers = new Set<(event: E) => void>();
+
+  // Returns the unsubscribe function (handy as a useEffect cleanup)
+  on<T extends E['type']>(type: T, handler: (event: EventOfType<E, T>) => void): () => void {
+    let set = this.handlers.get(type);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(type, set);
+    }
+    // Only ever called with events of its own type (see publish)
+    const listener = handler as (event: E) => void;
+    set.add(listener);
+    return () => { set!.delete(listener); };
+  }
+
+  // Every event, whatever its type
+  onAny(handler: (event: E) => void): () => void {
+    this.anyHandlers.add(handler);
+    return () => { this.anyHandlers.delete(handler); };
+  }
+
+  publish(event: E) {
+    this.handlers.get(event.type)?.forEach(handler => handler(event));
+    this.anyHandlers.forEach(handler => handler(event));
+  }
+}
@@ -0,0 +1,72 @@
+// Central fixed-timestep clock. Every gameplay system advances in identical
+// FIXED_DT slices regardless of display refresh rate, and rendering interpolates
+// between the last two ticks using `alpha`.
+
+export const TICK_RATE = 120;
+export const FIXED_DT = 1 / TICK_RATE;
+
+// Never simulate more than this much time in one frame (tab switches, hitches),
+// otherwise a slow frame triggers more ticks which makes the next frame slower.
+const MAX_FRAME_DELTA = 0.25;
+
+// Lower runs first within a tick. The player moves before anything reacts to it.
+export const TickPriority = {
+  Player: 0,
+  World: 5,
+  Director: 10,
+  Sentinels: 20,
+  Effects: 30
+} as const;
+
+export type TickCallback = (dt: number, tick: number) => void;
+
+interface Subscriber {
+  callback: TickCallback;
+  priority: number;
+}
+
+export class FixedStepScheduler {
+  private accumulator = 0;
+  private subscribers: Subscriber[] = [];
+
+  // Total ticks / simulated seconds since creation
+  tick = 0;
+  time = 0;
+  // Fraction of a tick left in the accumulator, for render interpolation [0, 1)
+  alpha = 0;
+
+  subscribe(callback: TickCallback, priority = 0): () => void {
+    const subscriber = { callback, priority };
+    this.subscribers.push(subscriber);
+    // Stable sort keeps mount order for equal priorities
+    this.subscribers.sort((a, b) => a.priority - b.priority);
+    return () => {
+      this.subscribers = this.subscribers.filter(s => s !== subscriber);
+    };
+  }
+
+  // Feed real frame time in; returns the number of ticks that ran
+  advance(frameDelta: number): number {
+    this.accumulator += Math.min(frameDelta, MAX_FRAME_DELTA);
+    let steps = 0;
+
+    while (this.accumulator >= FIXED_DT) {
+      this.step();
+      this.accumulator -= FIXED_DT;
+      steps++;
+    }
+
+    this.alpha = this.accumulator / FIXED_DT;
+    return steps;
+  }
+
+  // Run exactly one tick (also used to drive the simulation without a render loop)
+  step() {
+    // Copy so subscribers can unsubscribe mid-tick
+    for (const s of this.subscribers.slice()) {
+      s.callback(FIXED_DT, this.tick);
+    }
+    this.tick++;
+    this.time += FIXED_DT;
+  }
+}
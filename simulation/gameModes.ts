@@ -0,0 +1,72 @@
+// What a run is about: how it's won or lost, whether sentinels come, and which HUD
+// widgets matter. GameSimulation applies the rules; the HUD and music read the rest.
+
+export type GameModeId = 'survival' | 'timeAttack' | 'zen' | 'race';
+
+export type HudWidget = 'score' | 'clock' | 'starTarget' | 'shield' | 'abilities' | 'threat' | 'race' | 'style';
+
+export interface GameMode {
+  id: GameModeId;
+  label: string;
+  description: string;
+  // The director spawns sentinels (and the shield and abilities come into play)
+  sentinels: boolean;
+  // Stars that clear the run
+  starTarget: number | null;
+  // Seconds before the run ends on its own
+  timeLimit: number | null;
+  // Flown on a checkpoint course; finishing the last lap clears the run
+  race: boolean;
+  hud: HudWidget[];
+  // Music never builds past its opening intensity
+  calmMusic: boolean;
+}
+
+export const GAME_MODES: Record<GameModeId, GameMode> = {
+  survival: {
+    id: 'survival',
+    label: 'SURVIVAL',
+    description: 'COLLECT STARS UNTIL THE SENTINELS CATCH YOU',
+    sentinels: true,
+    starTarget: null,
+    timeLimit: null,
+    race: false,
+    hud: ['score', 'style', 'shield', 'abilities', 'threat'],
+    calmMusic: false
+  },
+  timeAttack: {
+    id: 'timeAttack',
+    label: 'TIME ATTACK',
+    description: 'COLLECT 30 STARS BEFORE THE CLOCK RUNS OUT',
+    sentinels: false,
+    starTarget: 30,
+    timeLimit: 180,
+    race: false,
+    hud: ['clock', 'starTarget', 'style'],
+    calmMusic: false
+  },
+  zen: {
+    id: 'zen',
+    label: 'ZEN',
+    description: 'NO SENTINELS, NO CLOCK. END THE RUN FROM THE PAUSE SCREEN',
+    sentinels: false,
+    starTarget: null,
+    timeLimit: null,
+    race: false,
+    hud: ['clock', 'style'],
+    calmMusic: true
+  },
+  race: {
+    id: 'race',
+    label: 'RACE',
+    description: 'FLY THROUGH THE CHECKPOINT RINGS IN ORDER. FASTEST TIME WINS',
+    sentinels: false,
+    starTarget: null,
+    timeLimit: null,
+    race: true,
+    hud: ['race', 'style'],
+    calmMusic: false
+  }
+};
+
+export const GAME_MODE_IDS = Object.keys(GAME_MODES) as GameModeId[];
@@ -0,0 +1,488 @@
+import { Vector3 } from 'three';
+import { FIXED_DT, TICK_RATE } from './fixedStep';
+import { SeededRandom, deriveSeed } from './random';
+import { StarField } from './starField';
+import { CityStreamer } from './cityStreamer';
+import { PathPlanner } from './navigation';
+import { Noise, SentinelEvent, applyEmp, createSentinel, isAnchorBlocked, stepSentinels } from './sentinels';
+import { SentinelStore } from './sentinelStore';
+import { SENTINEL_ARCHETYPES, SENTINEL_TYPES, SentinelType } from './sentinelArchetypes';
+import { ABILITIES, ABILITY_IDS, AbilityId, AbilityStatus, LURE_DURATION, LURE_RADIUS, LureBeacon } from './abilities';
+import { ShieldState, absorbHit, createShieldState, isInvulnerable, stepShield } from './shield';
+import { DIFFICULTY_PRESETS, Difficulty, evaluateCurve, getMaxSentinels } from './difficulty';
+import { GAME_MODES, GameMode } from './gameModes';
+import { CourseId, RaceCourse, RaceEvent, RaceState, createCourse, createRaceState, stepRace } from './raceCourse';
+import { CHAIN_BONUS, STAR_TYPES, VOID_DURATION } from './starTypes';
+import { COMBO_WINDOW, StyleState, Trick, createStyleState, stepStyle } from './style';
+import { EventSink } from './eventBus';
+import { DeathCause, RunEndCause, StarData, StarType } from '../types';
+import {
+  WispEvent,
+  WispInput,
+  WispSimState,
+  castGrappleRay,
+  createWispState,
+  getAimDirection,
+  stepWisp
+} from './wispPhysics';
+
+// One run of the game, headless. Everything that affects gameplay advances here,
+// one fixed tick at a time, from nothing but the seed and the per-tick WispInput.
+// Live play and replays drive the same class, so feeding a recorded input stream
+// back in reproduces the run exactly. React components only render its state.
+
+// Instance capacity vs. how many live stars the world keeps topped up
+export const MAX_STARS = 4000;
+const STAR_CAP = 1200;
+// A star is added every 200ms while below the cap
+const STAR_REPLENISH_TICKS = Math.round(0.2 * TICK_RATE);
+const STAR_PICKUP_RADIUS = 12;
+
+const SPAWN_POSITION = new Vector3(0, 30, 0);
+
+// How far the wisp's loud moves carry. Sentinels hear through walls and come to look.
+const NOISE_RADIUS = { jump: 60, wallJump: 80, grappleFire: 120 };
+// The grapple hook striking a wall is heard at the anchor too
+const ANCHOR_NOISE_RADIUS = 60;
+
+const distanceSqTo = (star: StarData, point: Vector3) =>
+  (star.position[0] - point.x) ** 2 + (star.position[1] - point.y) ** 2 + (star.position[2] - point.z) ** 2;
+
+// What the sentinels know about the player, for the HUD
+export type AlertLevel = 'hidden' | 'searching' | 'spotted';
+
+export type GameEvent =
+  | WispEvent
+  // chainStep: chain stars collected in order so far, this one included (0 when out of order)
+  | { type: 'starCollected'; id: string; starType: StarType; value: number; chainStep: number }
+  | { type: 'chainComplete'; bonus: number }
+  | { type: 'starExpired'; id: string }
+  | SentinelEvent
+  | RaceEvent
+  | { type: 'sentinelCrash'; position: Vector3 }
+  | { type: 'sentinelDestroyed'; position: Vector3 }
+  | { type: 'empPulse'; position: Vector3 }
+  | { type: 'lureThrown'; position: Vector3 }
+  | { type: 'lureExpired'; position: Vector3 }
+  // Not enough energy, still cooling down, or (lure) nothing to throw it at
+  | { type: 'abilityDenied'; ability: AbilityId }
+  // fatal: no charge left to absorb it, and the run is over
+  | { type: 'playerHit'; cause: DeathCause; position: Vector3; charges: number; fatal: boolean }
+  | { type: 'shieldRecharged'; charges: number }
+  | { type: 'cleared' }
+  | { type: 'timeUp' }
+  | ({ type: 'trick' } & Trick);
+
+// Shield charges, for the HUD
+export interface ShieldStatus {
+  charges: number;
+  maxCharges: number;
+}
+
+// Style score and combo, for the HUD
+export interface StyleStatus {
+  score: number;
+  multiplier: number;
+  // Share of the combo window left before the multiplier starts draining
+  comboLeft: number;
+}
+
+// Lap and split times, for the HUD
+export interface RaceStatus {
+  lap: number;
+  laps: number;
+  // Checkpoint to fly through next, and how many there are
+  next: number;
+  checkpoints: number;
+  lapTime: number;
+  // Seconds into the lap at the latest ring passed
+  lastSplit: { index: number; time: number } | null;
+  lapTimes: number[];
+}
+
+// Everything the HUD shows besides the score, sampled a few times a second
+export interface RunStatus {
+  abilities: AbilityStatus;
+  shield: ShieldStatus;
+  // Seconds of play, at a tenth of a second resolution
+  time: number;
+  race: RaceStatus | null;
+  style: StyleStatus;
+  // Distance to the closest sentinel
+  proximity: number;
+  alert: AlertLevel;
+}
+
+export class GameSimulation {
+  readonly starField = new StarField(MAX_STARS);
+  readonly city: CityStreamer;
+  readonly planner: PathPlanner;
+  // Set in race mode
+  readonly course: RaceCourse | null;
+
+  wisp: WispSimState = createWispState(SPAWN_POSITION);
+  // Wisp position at the start of the latest tick, for render interpolation
+  prevWispPosition = SPAWN_POSITION.clone();
+  // Input of the latest tick (replays aim the camera from it)
+  lastInput: WispInput | null = null;
+
+  readonly sentinels = new SentinelStore();
+  // Distance to the closest sentinel after the latest tick
+  sentinelProximity = 1000;
+  alert: AlertLevel = 'hidden';
+
+  tick = 0;
+  time = 0; // seconds of active play
+  score = 0;
+  // Spendable on abilities; every star adds one
+  energy = 0;
+  cooldowns: Record<AbilityId, number> = { emp: 0, lure: 0 };
+  lure: LureBeacon | null = null;
+  shield: ShieldState;
+  race: RaceState | null = null;
+  // Seconds the wisp stays hidden from sentinels (void stars)
+  cloakTimer = 0;
+  style: StyleState = createStyleState();
+  over = false;
+  endCause: RunEndCause | null = null;
+  // Where each tick's events go besides step()'s return value; the owner decides who listens
+  bus: EventSink<GameEvent> | null = null;
+
+  // Independent streams so e.g. patrols don't shift when a star spawns
+  private directorRng!: SeededRandom;
+  private patrolRng!: SeededRandom;
+  private starRng!: SeededRandom;
+  private lastSpawnTime = 0;
+  private nextSentinelId = 0;
+  private nextSwarmId = 0;
+  private nextStarId = 0;
+  // The chain being collected in order: which star comes next, and from which end it started
+  private chainRun: { id: string; next: number; direction: number; count: number } | null = null;
+  // Live flash stars, oldest first; they all last equally long so they expire in this order
+  private flashStars: StarData[] = [];
+  // Abilities fire when their input goes down, not while it's held
+  private abilityHeld: Record<AbilityId, boolean> = { emp: false, lure: false };
+
+  constructor(
+    readonly seed: number,
+    readonly difficulty: Difficulty = DIFFICULTY_PRESETS.normal,
+    readonly mode: GameMode = GAME_MODES.survival,
+    readonly courseId: CourseId = 'circuit'
+  ) {
+    this.shield = createShieldState(difficulty.shield);
+    this.city = new CityStreamer(seed, this.starField);
+    this.planner = new PathPlanner(this.city);
+    this.course = mode.race ? createCourse(courseId, seed) : null;
+    this.reset();
+  }
+
+  // Back to tick 0 of this seed
+  reset() {
+    this.directorRng = new SeededRandom(deriveSeed(this.seed, 'director'));
+    this.patrolRng = new SeededRandom(deriveSeed(this.seed, 'patrol'));
+    this.starRng = new SeededRandom(deriveSeed(this.seed, 'stars'));
+
+    this.wisp = createWispState(SPAWN_POSITION);
+    this.prevWispPosition.copy(SPAWN_POSITION);
+    this.lastInput = null;
+    this.sentinels.clear();
+    this.sentinelProximity = 1000;
+    this.alert = 'hidden';
+    this.tick = 0;
+    this.time = 0;
+    this.score = 0;
+    this.energy = 0;
+    this.cooldowns = { emp: 0, lure: 0 };
+    this.lure = null;
+    this.shield = createShieldState(this.difficulty.shield);
+    this.race = this.course ? createRaceState(this.course) : null;
+    this.cloakTimer = 0;
+    this.style = createStyleState();
+    this.chainRun = null;
+    this.flashStars = [];
+    this.abilityHeld = { emp: false, lure: false };
+    this.over = false;
+    this.endCause = null;
+    this.lastSpawnTime = 0;
+    this.nextSentinelId = 0;
+    this.nextSwarmId = 0;
+    this.nextStarId = 0;
+
+    this.city.reset(SPAWN_POSITION);
+    this.planner.reset();
+  }
+
+  step(input: WispInput, dt = FIXED_DT): GameEvent[] {
+    if (this.over) return [];
+    const events: GameEvent[] = [];
+    this.lastInput = input;
+
+    // --- Player ---
+    // Collected stars leave the field immediately, so they can't double-trigger
+    // Stars swept up together count in the order the wisp reached them, so fast chains stay in order
+    const collected = this.starField.collectWithin(this.wisp.position, STAR_PICKUP_RADIUS);
+    const from = this.prevWispPosition;
+    collected.sort((a, b) => distanceSqTo(a, from) - distanceSqTo(b, from));
+    for (const star of collected) {
+      const { value } = STAR_TYPES[star.type];
+      this.score += value;
+      this.energy += value;
+      if (star.type === 'void') this.cloakTimer = VOID_DURATION;
+      const chainStep = star.chain ? this.advanceChain(star.chain) : 0;
+      events.push({ type: 'starCollected', id: star.id, starType: star.type, value, chainStep });
+      if (star.chain && chainStep === star.chain.length) {
+        this.score += CHAIN_BONUS;
+        events.push({ type: 'chainComplete', bonus: CHAIN_BONUS });
+      }
+    }
+
+    this.prevWispPosition.copy(this.wisp.position);
+    const wispEvents = stepWisp(this.wisp, input, {
+      grid: this.city.grid,
+      moveSpeed: evaluateCurve(this.difficulty.wispSpeed, this.time, this.score),
+      isAnchorBlocked: (point) => isAnchorBlocked(this.sentinels.all, point)
+    }, dt);
+    events.push(...wispEvents);
+
+    if (this.race) {
+      // Timed from the end of this tick, the same clock the run uses
+      const raceEvents = stepRace(this.race, this.prevWispPosition, this.wisp.position, this.time + dt);
+      events.push(...raceEvents);
+      if (raceEvents.some(e => e.type === 'raceFinished')) {
+        this.end('cleared');
+        events.push({ type: 'cleared' });
+      }
+    }
+
+    // A cloaked wisp makes no sound
+    const noises: Noise[] = [];
+    const cloaked = this.cloakTimer > 0;
+    for (const event of cloaked ? [] : wispEvents) {
+      if (event.type === 'jump' || event.type === 'wallJump' || event.type === 'grappleFire') {
+        noises.push({ position: this.wisp.position.clone(), radius: NOISE_RADIUS[event.type] });
+      }
+      if (event.type === 'grappleFire') noises.push({ position: event.point, radius: ANCHOR_NOISE_RADIUS });
+    }
+
+    // --- Abilities ---
+    ABILITY_IDS.forEach(id => {
+      this.cooldowns[id] = Math.max(0, this.cooldowns[id] - dt);
+      const pressed = input[id] && !this.abilityHeld[id];
+      this.abilityHeld[id] = input[id];
+      if (pressed) this.useAbility(id, input, events);
+    });
+    if (this.lure) {
+      this.lure.timer -= dt;
+      if (this.lure.timer <= 0) {
+        events.push({ type: 'lureExpired', position: this.lure.position });
+        this.lure = null;
+      } else {
+        // Sentinels hear the beacon as if it were the wisp
+        noises.push({ position: this.lure.position, radius: LURE_RADIUS });
+      }
+    }
+
+    // --- Shield ---
+    if (stepShield(this.shield, this.difficulty.shield, dt)) {
+      events.push({ type: 'shieldRecharged', charges: this.shield.charges });
+    }
+    this.cloakTimer = Math.max(0, this.cloakTimer - dt);
+
+    // --- World ---
+    this.city.update(this.wisp.position);
+
+    // --- Director ---
+    this.time += dt;
+    this.spawnSentinels();
+
+    // --- Sentinels ---
+    // Paths requested last tick get this tick's share of the search budget
+    this.planner.update();
+    const result = stepSentinels(this.sentinels, this.wisp, this.city, this.planner, this.patrolRng, noises, cloaked, dt);
+    this.sentinelProximity = result.minDistance;
+    this.alert = this.sentinels.all.some(s => s.awareness === 'chase') ? 'spotted'
+      : this.sentinels.all.some(s => s.awareness === 'search') ? 'searching'
+      : 'hidden';
+    events.push(...result.events);
+    result.collisions.forEach(position => events.push({ type: 'sentinelCrash', position }));
+    // Hits while still flickering from the last one don't count
+    const hit = result.hit;
+    if (hit && !isInvulnerable(this.shield)) {
+      const fatal = !absorbHit(this.shield, this.difficulty.shield, this.wisp, hit.source);
+      if (fatal) this.end(hit.cause);
+      events.push({ type: 'playerHit', cause: hit.cause, position: this.wisp.position.clone(), charges: this.shield.charges, fatal });
+    }
+
+    // --- Mode ---
+    const { starTarget, timeLimit } = this.mode;
+    if (!this.over && starTarget !== null && this.score >= starTarget) {
+      this.end('cleared');
+      events.push({ type: 'cleared' });
+    } else if (!this.over && timeLimit !== null && this.time >= timeLimit) {
+      this.end('timeUp');
+      events.push({ type: 'timeUp' });
+    }
+
+    // --- Star replenishment ---
+    if (this.tick % STAR_REPLENISH_TICKS === 0 && this.starField.size < STAR_CAP) {
+      const star = this.city.spawnStar(this.starRng, `star_r${this.nextStarId++}`, this.time);
+      if (star?.type === 'flash') this.flashStars.push(star);
+    }
+    // Collected or unloaded flash stars are already gone from the field
+    while (this.flashStars.length > 0 && this.flashStars[0].expiresAt! <= this.time) {
+      const { id } = this.flashStars.shift()!;
+      if (this.starField.remove(id)) events.push({ type: 'starExpired', id });
+    }
+
+    // --- Style ---
+    for (const trick of stepStyle(this.style, events, this.wisp, this.sentinels.all, this.time, dt)) {
+      events.push({ type: 'trick', ...trick });
+    }
+
+    this.tick++;
+    const bus = this.bus;
+    if (bus) events.forEach(event => bus.publish(event));
+    return events;
+  }
+
+  // Stops the run; quitting comes from outside, everything else from step()
+  end(cause: RunEndCause) {
+    if (this.over) return;
+    this.over = true;
+    this.endCause = cause;
+  }
+
+  getAbilityStatus(): AbilityStatus {
+    return { energy: this.energy, cooldowns: { ...this.cooldowns } };
+  }
+
+  getShieldStatus(): ShieldStatus {
+    return { charges: this.shield.charges, maxCharges: this.difficulty.shield.maxCharges };
+  }
+
+  getStyleStatus(): StyleStatus {
+    const { score, multiplier, comboTimer } = this.style;
+    return { score, multiplier, comboLeft: comboTimer / COMBO_WINDOW };
+  }
+
+  getRunStatus(): RunStatus {
+    return {
+      abilities: this.getAbilityStatus(),
+      shield: this.getShieldStatus(),
+      time: Math.floor(this.time * 10) / 10,
+      race: this.getRaceStatus(),
+      style: this.getStyleStatus(),
+      proximity: this.sentinelProximity,
+      alert: this.alert
+    };
+  }
+
+  getRaceStatus(): RaceStatus | null {
+    const race = this.race;
+    if (!race) return null;
+    const { splits } = race;
+    return {
+      lap: race.lap,
+      laps: race.course.laps,
+      next: race.next,
+      checkpoints: race.course.checkpoints.length,
+      lapTime: this.time - race.lapStartTime,
+      lastSplit: splits.length > 0 ? { index: splits.length, time: splits[splits.length - 1] } : null,
+      lapTimes: [...race.lapTimes]
+    };
+  }
+
+  // Drop interpolation history so a paused view holds still
+  settle() {
+    this.prevWispPosition.copy(this.wisp.position);
+    this.sentinels.all.forEach(s => s.prevPosition.copy(s.position));
+  }
+
+  // Chain stars count when collected one after another from either end of their
+  // trail; any other star of the trail breaks the run. Returns the run's length.
+  private advanceChain(chain: NonNullable<StarData['chain']>): number {
+    const { id, index, length } = chain;
+    const run = this.chainRun;
+    if (run && run.id === id && run.next === index) {
+      run.count++;
+      run.next += run.direction;
+    } else if (index === 0 || index === length - 1) {
+      const direction = index === 0 ? 1 : -1;
+      this.chainRun = { id, next: index + direction, direction, count: 1 };
+    } else {
+      this.chainRun = null;
+      return 0;
+    }
+
+    const { count } = this.chainRun!;
+    if (count === length) this.chainRun = null;
+    return count;
+  }
+
+  private useAbility(id: AbilityId, input: WispInput, events: GameEvent[]) {
+    const { cost, cooldown } = ABILITIES[id];
+    // The beacon lands wherever the grapple would
+    const lureTarget = id === 'lure'
+      ? castGrappleRay(this.wisp.position, getAimDirection(input.yaw, input.pitch), this.city.grid)
+      : null;
+    if (this.cooldowns[id] > 0 || this.energy < cost || (id === 'lure' && !lureTarget)) {
+      events.push({ type: 'abilityDenied', ability: id });
+      return;
+    }
+    this.energy -= cost;
+    this.cooldowns[id] = cooldown;
+
+    if (lureTarget) {
+      this.lure = { position: lureTarget, timer: LURE_DURATION };
+      events.push({ type: 'lureThrown', position: lureTarget.clone() });
+    } else {
+      events.push({ type: 'empPulse', position: this.wisp.position.clone() });
+      for (const position of applyEmp(this.sentinels, this.planner, this.wisp.position)) {
+        events.push({ type: 'sentinelDestroyed', position });
+      }
+    }
+  }
+
+  private spawnSentinels() {
+    const { time, score, difficulty } = this;
+    if (!this.mode.sentinels) return;
+    const spawnDelay = evaluateCurve(difficulty.spawnDelay, time, score);
+    const maxSentinels = getMaxSentinels(difficulty, time, score);
+    const sentinelSpeed = evaluateCurve(difficulty.sentinelSpeed, time, score);
+
+    if (time - this.lastSpawnTime <= spawnDelay || this.sentinels.size >= maxSentinels) return;
+    this.lastSpawnTime = time;
+
+    const rng = this.directorRng;
+    // Tougher archetypes join as the run goes on; swarms only when the whole pack fits
+    const room = maxSentinels - this.sentinels.size;
+    const type = rng.pickWeighted(SENTINEL_TYPES
+      .map(t => SENTINEL_ARCHETYPES[t])
+      .filter(a => a.unlockTime <= time && a.groupSize <= room)
+      .map(a => [a.type, a.spawnWeight] as [SentinelType, number]));
+
+    const playerPos = this.wisp.position;
+    const angle = rng.next() * Math.PI * 2;
+    // Spawn further away to give reaction time (250-400 units)
+    const distance = 250 + rng.next() * 150;
+    const relativeHeight = (rng.next() - 0.5) * 100;
+
+    const spawnPos = new Vector3(
+      playerPos.x + Math.cos(angle) * distance,
+      Math.max(10, playerPos.y + relativeHeight),
+      playerPos.z + Math.sin(angle) * distance
+    );
+
+    // Never spawn over ground that isn't streamed in yet
+    if (!this.city.isResident(spawnPos.x, spawnPos.z)) return;
+
+    const { groupSize } = SENTINEL_ARCHETYPES[type];
+    const swarmId = groupSize > 1 ? this.nextSwarmId++ : null;
+    for (let i = 0; i < groupSize; i++) {
+      // Pack members start a few units apart
+      const position = spawnPos.clone().add(new Vector3(i * 5, 0, 0));
+      const id = `sentinel_${this.nextSentinelId++}`;
+      this.sentinels.add(createSentinel(this.patrolRng, this.city, id, type, position, sentinelSpeed, swarmId));
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { Vector3 } from 'three';
+import { FIXED_DT } from './fixedStep';
+import { GAME_MODES, GAME_MODE_IDS, GameModeId } from './gameModes';
+import { DIFFICULTY_IDS, DifficultyId } from './difficulty';
+import { COURSES, CourseId } from './raceCourse';
+import { isKeyOf, isNumberArray, isObject, isOneOf, parseJson } from './json';
+
+// Ghosts are a run's path through the city, sampled every few ticks, plus the time
+// each star was collected. They're only ever drawn and compared against, never
+// simulated, so a ghost can't touch stars, sentinels or buildings.
+
+// 10 samples per second is smooth enough once interpolated
+const SAMPLE_TICKS = 12;
+const GHOST_VERSION = 1;
+
+// Which runs race each other: the same city, mode and difficulty, and in race mode the same course
+export interface GhostKey {
+  seed: number;
+  mode: GameModeId;
+  difficulty: DifficultyId;
+  course: CourseId | null;
+}
+
+export const getGhostKey = (seed: number, mode: GameModeId, difficulty: DifficultyId, course: CourseId): GhostKey =>
+  ({ seed, mode, difficulty, course: GAME_MODES[mode].race ? course : null });
+
+export const matchesGhostKey = (ghost: GhostKey, key: GhostKey) =>
+  ghost.seed === key.seed && ghost.mode === key.mode && ghost.difficulty === key.difficulty && ghost.course === key.course;
+
+export interface GhostPath extends GhostKey {
+  score: number;
+  // Reached the mode's goal (star target or finish line)
+  cleared: boolean;
+  survivalTime: number;
+  wispColor: string;
+  date: string; // ISO timestamp
+  // Seconds between samples
+  interval: number;
+  // Flat x, y, z triples rounded to 0.1 units
+  positions: number[];
+  // Seconds into the run at which each point of score was reached (a five-point star adds five)
+  starTimes: number[];
+}
+
+// Ahead/behind readout against a ghost
+export interface GhostStatus {
+  // Seconds behind the ghost's pace (negative when ahead), to 0.1s; null before the first split
+  delta: number | null;
+  // Already collected more stars than the ghost ever did
+  beaten: boolean;
+}
+
+const round = (v: number) => Math.round(v * 10) / 10;
+
+// Logs the live run, one call per simulation tick
+export class GhostRecorder {
+  private ticks = 0;
+  private positions: number[] = [];
+  private starTimes: number[] = [];
+
+  reset() {
+    this.ticks = 0;
+    this.positions = [];
+    this.starTimes = [];
+  }
+
+  get time() {
+    return this.ticks * FIXED_DT;
+  }
+
+  // Called after the tick that moved the wisp to `position`
+  record(position: Vector3) {
+    if (this.ticks % SAMPLE_TICKS === 0) {
+      this.positions.push(round(position.x), round(position.y), round(position.z));
+    }
+    this.ticks++;
+  }
+
+  collectStar(points = 1) {
+    for (let i = 0; i < points; i++) this.starTimes.push(this.time);
+  }
+
+  getStatus(ghost: GhostPath, score: number): GhostStatus {
+    return getGhostStatus(ghost, this.starTimes, score, this.time);
+  }
+
+  finish(meta: Omit<GhostPath, 'interval' | 'positions' | 'starTimes'>): GhostPath {
+    return {
+      ...meta,
+      interval: SAMPLE_TICKS * FIXED_DT,
+      positions: [...this.positions],
+      starTimes: [...this.starTimes]
+    };
+  }
+}
+
+// Seconds the ghost's path covers
+export const getGhostDuration = (ghost: GhostPath) =>
+  Math.max(0, ghost.positions.length / 3 - 1) * ghost.interval;
+
+// Writes the ghost's position `time` seconds into its run. Returns false once it has ended.
+export const sampleGhost = (ghost: GhostPath, time: number, out: Vector3): boolean => {
+  const count = ghost.positions.length / 3;
+  if (count === 0 || time > getGhostDuration(ghost)) return false;
+
+  const f = Math.max(0, time / ghost.interval);
+  const i = Math.min(Math.floor(f), count - 1);
+  const j = Math.min(i + 1, count - 1);
+  const t = f - i;
+  const p = ghost.positions;
+  out.set(
+    p[i * 3] + (p[j * 3] - p[i * 3]) * t,
+    p[i * 3 + 1] + (p[j * 3 + 1] - p[i * 3 + 1]) * t,
+    p[i * 3 + 2] + (p[j * 3 + 2] - p[i * 3 + 2]) * t
+  );
+  return true;
+};
+
+// Compares star splits: how much later than the ghost each star arrived. While the
+// ghost already has our next star and we don't, the gap keeps growing live.
+export const getGhostStatus = (ghost: GhostPath, starTimes: number[], score: number, time: number): GhostStatus => {
+  const ghostStars = ghost.starTimes;
+  if (score > ghostStars.length) return { delta: null, beaten: true };
+
+  let delta: number | null = score > 0 ? starTimes[score - 1] - ghostStars[score - 1] : null;
+  const next = ghostStars[score];
+  if (next !== undefined && time > next) {
+    delta = Math.max(delta ?? 0, time - next);
+  }
+  return { delta: delta === null ? null : round(delta), beaten: false };
+};
+
+// The better of two runs with the same key: a clear beats no clear and the quicker clear
+// wins; otherwise more stars, then longer survival
+export const isBetterGhost = (candidate: GhostPath, current: GhostPath | null) => {
+  if (!current) return true;
+  if (candidate.cleared !== current.cleared) return candidate.cleared;
+  if (candidate.cleared) return candidate.survivalTime < current.survivalTime;
+  return candidate.score > current.score ||
+    (candidate.score === current.score && candidate.survivalTime > current.survivalTime);
+};
+
+// --- Files ---
+
+export const encodeGhost = (ghost: GhostPath): string =>
+  JSON.stringify({ version: GHOST_VERSION, ...ghost });
+
+// Reads an untrusted object (localStorage or an imported file) as a ghost; null when it
+// isn't usable. Ghosts from before modes existed are keyed by the seed alone, and were all
+// Survival on Normal.
+export const readGhostPath = (value: unknown): GhostPath | null => {
+  if (!isObject(value)) return null;
+  const { seed, mode = 'survival', difficulty = 'normal', course = null, cleared, score, survivalTime, wispColor, date, interval, positions, starTimes } = value;
+  if (
+    typeof seed !== 'number' ||
+    !isOneOf(GAME_MODE_IDS, mode) ||
+    !isOneOf(DIFFICULTY_IDS, difficulty) ||
+    (course !== null && !isKeyOf(COURSES, course)) ||
+    typeof score !== 'number' ||
+    typeof survivalTime !== 'number' ||
+    typeof wispColor !== 'string' ||
+    typeof date !== 'string' ||
+    typeof interval !== 'number' || interval <= 0 ||
+    !isNumberArray(positions) || positions.length % 3 !== 0 ||
+    !isNumberArray(starTimes)
+  ) return null;
+  return { seed, mode, difficulty, course: isKeyOf(COURSES, course) ? course : null, score, cleared: cleared === true, survivalTime, wispColor, date, interval, positions, starTimes };
+};
+
+// Parses a ghost file; throws with a readable message on anything unusable
+export const decodeGhost = (json: string): GhostPath => {
+  const data = parseJson(json);
+  if (!isObject(data) || data.version !== GHOST_VERSION) throw new Error('Not a ghost file');
+  const ghost = readGhostPath(data);
+  if (!ghost) throw new Error('Ghost path is corrupted');
+  return ghost;
+};
@@ -0,0 +1,26 @@
+// Narrowing for untrusted JSON (localStorage and imported files). Everything read
+// back starts out `unknown` and is checked field by field before it's used.
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isArray = (value: unknown): value is unknown[] => Array.isArray(value);
+
+export const isNumberArray = (value: unknown): value is number[] =>
+  isArray(value) && value.every(v => typeof v === 'number' && Number.isFinite(v));
+
+// A key of `table`, e.g. a district or course id
+export const isKeyOf = <T extends object>(table: T, value: unknown): value is keyof T =>
+  typeof value === 'string' && value in table;
+
+export const isOneOf = <T>(values: readonly T[], value: unknown): value is T =>
+  (values as readonly unknown[]).includes(value);
+
+// Throws with a readable message when the text isn't JSON at all
+export const parseJson = (json: string): unknown => {
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+};
@@ -0,0 +1,288 @@
+import { Vector3 } from 'three';
+import { CityStreamer } from './cityStreamer';
+
+// Flight navigation for sentinels. The city is seen from above as a grid of
+// columns, each as tall as the highest building part over it. Paths prefer open
+// streets, hop over low roofs and go around towers. Searches are incremental: the
+// planner expands a fixed number of nodes per tick and carries unfinished searches
+// over to the next one, so many sentinels repathing at once stays cheap (and the
+// result only depends on the tick, not on how fast the machine is).
+
+// Narrow enough that every street has at least one fully open column
+export const NAV_CELL_SIZE = 10;
+// Columns taller than this are flown around, never over
+const MAX_CLIMB = 150;
+// Every unit of roof height adds this fraction of a cell to the cost of crossing it
+const CLIMB_COST = 1 / 20;
+// Flight height above a column's top
+const CLEARANCE = 6;
+const MIN_ALTITUDE = 10;
+// Node expansions per tick across all searches
+export const NAV_BUDGET_PER_TICK = 300;
+// Give up on a search after this many expansions and use the best partial path
+const MAX_SEARCH_NODES = 4000;
+
+const NEIGHBORS: [number, number, number][] = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2]
+];
+
+const toCell = (v: number) => Math.floor(v / NAV_CELL_SIZE);
+const cellKey = (cx: number, cz: number) => `${cx},${cz}`;
+
+// Column heights, computed on demand from the building grid. The cache is dropped
+// whenever chunks stream in or out.
+export class NavGrid {
+  private tops = new Map<string, number>();
+  private cityVersion = -1;
+
+  constructor(private city: CityStreamer) {}
+
+  // Highest roof over the column, or Infinity outside the streamed city
+  columnTop(cx: number, cz: number): number {
+    if (this.city.version !== this.cityVersion) {
+      this.cityVersion = this.city.version;
+      this.tops.clear();
+    }
+    const key = cellKey(cx, cz);
+    const cached = this.tops.get(key);
+    if (cached !== undefined) return cached;
+
+    const minX = cx * NAV_CELL_SIZE;
+    const minZ = cz * NAV_CELL_SIZE;
+    let top = 0;
+    if (!this.city.isResident(minX + NAV_CELL_SIZE / 2, minZ + NAV_CELL_SIZE / 2)) {
+      top = Infinity;
+    } else {
+      this.city.grid.forEachInBox(
+        { minX, minY: -Infinity, minZ, maxX: minX + NAV_CELL_SIZE, maxY: Infinity, maxZ: minZ + NAV_CELL_SIZE },
+        (_, bounds) => { top = Math.max(top, bounds.maxY); }
+      );
+    }
+    this.tops.set(key, top);
+    return top;
+  }
+
+  // Where to fly through a column
+  waypoint(cx: number, cz: number): Vector3 {
+    return new Vector3(
+      (cx + 0.5) * NAV_CELL_SIZE,
+      Math.max(MIN_ALTITUDE, this.columnTop(cx, cz) + CLEARANCE),
+      (cz + 0.5) * NAV_CELL_SIZE
+    );
+  }
+}
+
+interface SearchNode {
+  cx: number;
+  cz: number;
+  g: number;
+  f: number;
+  h: number;
+  parent: SearchNode | null;
+}
+
+// Binary min-heap on f. Not stable: equal-f nodes don't come out in insertion order,
+// but the same pushes always give the same pops, so searches stay deterministic.
+class OpenSet {
+  private items: SearchNode[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(node: SearchNode) {
+    const items = this.items;
+    items.push(node);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].f <= node.f) break;
+      items[i] = items[parent];
+      i = parent;
+    }
+    items[i] = node;
+  }
+
+  pop(): SearchNode {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      let i = 0;
+      while (true) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        const smallestF = () => (smallest === i ? last.f : items[smallest].f);
+        if (left < items.length && items[left].f < smallestF()) smallest = left;
+        if (right < items.length && items[right].f < smallestF()) smallest = right;
+        if (smallest === i) break;
+        items[i] = items[smallest];
+        i = smallest;
+      }
+      items[i] = last;
+    }
+    return top;
+  }
+}
+
+interface Search {
+  id: string;
+  goalX: number;
+  goalZ: number;
+  goal: Vector3;
+  open: OpenSet;
+  best: Map<string, SearchNode>;
+  closed: Set<string>;
+  // Closest node to the goal so far, for partial paths
+  nearest: SearchNode;
+  expanded: number;
+}
+
+const octile = (dx: number, dz: number) => {
+  const ax = Math.abs(dx);
+  const az = Math.abs(dz);
+  return Math.max(ax, az) + (Math.SQRT2 - 1) * Math.min(ax, az);
+};
+
+// Queues path requests and works through them a budget of nodes at a time
+export class PathPlanner {
+  readonly grid: NavGrid;
+  private queue: { id: string; from: Vector3; to: Vector3 }[] = [];
+  private active: Search | null = null;
+  private results = new Map<string, Vector3[]>();
+
+  constructor(city: CityStreamer) {
+    this.grid = new NavGrid(city);
+  }
+
+  reset() {
+    this.queue = [];
+    this.active = null;
+    this.results.clear();
+  }
+
+  // Asks for a path; replaces anything still queued for the same id
+  request(id: string, from: Vector3, to: Vector3) {
+    this.cancel(id);
+    this.queue.push({ id, from: from.clone(), to: to.clone() });
+  }
+
+  isPending(id: string): boolean {
+    return this.active?.id === id || this.queue.some(r => r.id === id);
+  }
+
+  cancel(id: string) {
+    if (this.active?.id === id) this.active = null;
+    this.queue = this.queue.filter(r => r.id !== id);
+    this.results.delete(id);
+  }
+
+  // A finished path (waypoints, excluding the start), handed over once
+  takePath(id: string): Vector3[] | null {
+    const path = this.results.get(id);
+    if (!path) return null;
+    this.results.delete(id);
+    return path;
+  }
+
+  // Spends this tick's node budget
+  update(budget = NAV_BUDGET_PER_TICK) {
+    while (budget > 0) {
+      if (!this.active) {
+        const next = this.queue.shift();
+        if (!next) return;
+        this.active = this.startSearch(next.id, next.from, next.to);
+      }
+      budget = this.expand(this.active, budget);
+    }
+  }
+
+  private startSearch(id: string, from: Vector3, to: Vector3): Search {
+    const goalX = toCell(to.x);
+    const goalZ = toCell(to.z);
+    const cx = toCell(from.x);
+    const cz = toCell(from.z);
+    const h = octile(goalX - cx, goalZ - cz);
+    const start: SearchNode = { cx, cz, g: 0, h, f: h, parent: null };
+    const open = new OpenSet();
+    open.push(start);
+    return {
+      id, goalX, goalZ, goal: to, open,
+      best: new Map([[cellKey(cx, cz), start]]),
+      closed: new Set(),
+      nearest: start,
+      expanded: 0
+    };
+  }
+
+  // Expands up to `budget` nodes; returns what's left of the budget
+  private expand(search: Search, budget: number): number {
+    while (budget > 0) {
+      if (search.open.size === 0 || search.expanded >= MAX_SEARCH_NODES) {
+        this.finish(search, search.nearest);
+        return budget;
+      }
+      const node = search.open.pop();
+      const key = cellKey(node.cx, node.cz);
+      if (search.closed.has(key)) continue;
+      search.closed.add(key);
+      search.expanded++;
+      budget--;
+
+      if (node.cx === search.goalX && node.cz === search.goalZ) {
+        this.finish(search, node);
+        return budget;
+      }
+      if (node.h < search.nearest.h) search.nearest = node;
+
+      for (const [dx, dz, step] of NEIGHBORS) {
+        const nx = node.cx + dx;
+        const nz = node.cz + dz;
+        const nKey = cellKey(nx, nz);
+        if (search.closed.has(nKey)) continue;
+        const top = this.grid.columnTop(nx, nz);
+        // The goal column is always enterable (the player may be standing on a tower)
+        const isGoal = nx === search.goalX && nz === search.goalZ;
+        if (top > MAX_CLIMB && !isGoal) continue;
+        // No cutting diagonally between two blocked columns
+        if (dx !== 0 && dz !== 0 &&
+          (this.grid.columnTop(node.cx + dx, node.cz) > MAX_CLIMB || this.grid.columnTop(node.cx, node.cz + dz) > MAX_CLIMB)) continue;
+
+        const g = node.g + step * (1 + Math.min(top, MAX_CLIMB) * CLIMB_COST);
+        const existing = search.best.get(nKey);
+        if (existing && existing.g <= g) continue;
+        const h = octile(search.goalX - nx, search.goalZ - nz);
+        const next: SearchNode = { cx: nx, cz: nz, g, h, f: g + h, parent: node };
+        search.best.set(nKey, next);
+        search.open.push(next);
+      }
+    }
+    return budget;
+  }
+
+  private finish(search: Search, end: SearchNode) {
+    const cells: SearchNode[] = [];
+    for (let n: SearchNode | null = end; n && n.parent; n = n.parent) cells.push(n);
+    cells.reverse();
+
+    // Keep only the corners of straight runs
+    const path: Vector3[] = [];
+    cells.forEach((cell, i) => {
+      const prev = i > 0 ? cells[i - 1] : null;
+      const next = cells[i + 1];
+      if (prev && next &&
+        cell.cx - prev.cx === next.cx - cell.cx && cell.cz - prev.cz === next.cz - cell.cz &&
+        this.grid.columnTop(cell.cx, cell.cz) === this.grid.columnTop(next.cx, next.cz)) return;
+      path.push(this.grid.waypoint(cell.cx, cell.cz));
+    });
+    // Reaching the goal column: finish on the exact goal
+    if (end.cx === search.goalX && end.cz === search.goalZ && path.length > 0) {
+      path[path.length - 1] = search.goal.clone();
+    }
+
+    this.results.set(search.id, path);
+    this.active = null;
+  }
+}
@@ -0,0 +1,224 @@
+import { Vector3 } from 'three';
+import { SeededRandom, deriveSeed } from './random';
+import { CHUNK_SIZE } from './chunks';
+import { DISTRICTS, getChunkDistrict } from './districts';
+import { RoadEdge, generateChunkRoads } from './roadNetwork';
+
+// Checkpoint race courses. A course is a closed loop of control points over the
+// roads, so the rings hang between buildings; rings are laid along it every
+// RING_SPACING units. Every course starts (and laps) at the spawn point, which is
+// always an avenue crossing. Authored courses only use avenues, which every city
+// has; the city circuit is generated from the seed over its open streets too.
+
+export type CourseId = 'circuit' | 'avenueLoop' | 'highLine';
+
+export const RING_RADIUS = 8;
+const RING_SPACING = 110;
+// Passing just outside the ring still counts
+const RING_TOLERANCE = 1.5;
+
+export interface Checkpoint {
+  position: Vector3;
+  // Direction of travel through the ring
+  normal: Vector3;
+}
+
+export interface RaceCourse {
+  id: CourseId;
+  label: string;
+  laps: number;
+  // Checkpoint 0 is the start/finish line
+  checkpoints: Checkpoint[];
+}
+
+interface CourseDefinition {
+  label: string;
+  laps: number;
+  // Closed loop of [x, y, z], starting at the spawn point
+  controlPoints: (seed: number) => [number, number, number][];
+}
+
+// Streets are sampled this often when checking a course side is open road
+const ROAD_SAMPLE_STEP = 10;
+const CIRCUIT_ATTEMPTS = 40;
+
+const onEdge = (edges: { x1: number; z1: number; x2: number; z2: number }[], x: number, z: number) =>
+  edges.some(e =>
+    x >= Math.min(e.x1, e.x2) - 0.5 && x <= Math.max(e.x1, e.x2) + 0.5 &&
+    z >= Math.min(e.z1, e.z2) - 0.5 && z <= Math.max(e.z1, e.z2) + 0.5);
+
+// A rectangle from the spawn crossing out to an open street crossing, so each lap
+// runs the avenues home and the city's own streets out
+const generateCircuit = (seed: number): [number, number, number][] => {
+  const rng = new SeededRandom(deriveSeed(seed, 'race', 'circuit'));
+  const edges: { x1: number; z1: number; x2: number; z2: number }[] = [];
+  const xs = new Set<number>();
+  const zs = new Set<number>();
+  for (let cx = -2; cx <= 1; cx++) {
+    for (let cz = -2; cz <= 1; cz++) {
+      const closure = DISTRICTS[getChunkDistrict(seed, cx, cz)].streetClosure;
+      const { roads } = generateChunkRoads(seed, cx, cz, closure);
+      const nodes = new Map(roads.nodes.map(n => [n.id, n]));
+      roads.edges.forEach((edge: RoadEdge) => {
+        const a = nodes.get(edge.a)!;
+        const b = nodes.get(edge.b)!;
+        edges.push({ x1: a.x, z1: a.z, x2: b.x, z2: b.z });
+        if (a.x === b.x) xs.add(a.x);
+        if (a.z === b.z) zs.add(a.z);
+      });
+    }
+  }
+
+  const isOpen = (x1: number, z1: number, x2: number, z2: number) => {
+    const length = Math.hypot(x2 - x1, z2 - z1);
+    for (let d = 0; d <= length; d += ROAD_SAMPLE_STEP) {
+      const t = d / length;
+      if (!onEdge(edges, x1 + (x2 - x1) * t, z1 + (z2 - z1) * t)) return false;
+    }
+    return true;
+  };
+
+  const far = (v: number) => Math.abs(v) >= 250 && Math.abs(v) <= 2 * CHUNK_SIZE;
+  const candidatesX = Array.from(xs).filter(far);
+  const candidatesZ = Array.from(zs).filter(far);
+  const height = () => 15 + rng.next() * 55;
+
+  for (let attempt = 0; attempt < CIRCUIT_ATTEMPTS; attempt++) {
+    const x = candidatesX[Math.floor(rng.next() * candidatesX.length)];
+    const z = candidatesZ[Math.floor(rng.next() * candidatesZ.length)];
+    if (x === undefined || z === undefined || !isOpen(x, 0, x, z) || !isOpen(0, z, x, z)) continue;
+    return [
+      [0, 30, 0],
+      [x / 2, height(), 0],
+      [x, height(), 0],
+      [x, height(), z / 2],
+      [x, height(), z],
+      [x / 2, height(), z],
+      [0, height(), z],
+      [0, height(), z / 2]
+    ];
+  }
+  // Every city has its avenues
+  return COURSES.avenueLoop.controlPoints(seed);
+};
+
+export const COURSES: Record<CourseId, CourseDefinition> = {
+  circuit: { label: 'CITY CIRCUIT', laps: 3, controlPoints: generateCircuit },
+  avenueLoop: {
+    label: 'AVENUE LOOP',
+    laps: 3,
+    controlPoints: () => [
+      [0, 30, 0], [400, 45, 0], [800, 25, 0], [800, 60, -400],
+      [400, 20, -400], [0, 40, -400]
+    ]
+  },
+  // Tall climbs and long dives around a figure of avenues
+  highLine: {
+    label: 'HIGH LINE',
+    laps: 2,
+    controlPoints: () => [
+      [0, 30, 0], [0, 90, -400], [0, 20, -800], [400, 110, -800],
+      [400, 25, -400], [-400, 80, -400], [-400, 15, 0]
+    ]
+  }
+};
+
+export const COURSE_IDS = Object.keys(COURSES) as CourseId[];
+
+export const createCourse = (id: CourseId, seed: number): RaceCourse => {
+  const { label, laps, controlPoints } = COURSES[id];
+  const points = controlPoints(seed).map(([x, y, z]) => new Vector3(x, y, z));
+  const checkpoints: Checkpoint[] = [];
+  points.forEach((from, i) => {
+    const to = points[(i + 1) % points.length];
+    const leg = to.clone().sub(from);
+    const count = Math.max(1, Math.round(leg.length() / RING_SPACING));
+    const direction = leg.clone().normalize();
+    // The ring on a corner faces halfway between the legs that meet there
+    const incoming = from.clone().sub(points[(i + points.length - 1) % points.length]).normalize();
+    for (let r = 0; r < count; r++) {
+      const normal = r === 0 ? incoming.clone().add(direction).normalize() : direction.clone();
+      checkpoints.push({ position: from.clone().addScaledVector(leg, r / count), normal });
+    }
+  });
+  return { id, label, laps, checkpoints };
+};
+
+// Where a run stands on its course
+export interface RaceState {
+  course: RaceCourse;
+  // Checkpoint to fly through next
+  next: number;
+  // Laps completed
+  lap: number;
+  lapStartTime: number;
+  // Seconds into the current lap at each ring passed so far
+  splits: number[];
+  lapTimes: number[];
+  // Splits of each completed lap
+  lapSplits: number[][];
+}
+
+// What a race run leaves behind for the run log and course bests
+export interface RaceResult {
+  course: CourseId;
+  lapTimes: number[];
+  lapSplits: number[][];
+  finished: boolean;
+}
+
+export const getRaceResult = (race: RaceState): RaceResult => ({
+  course: race.course.id,
+  lapTimes: [...race.lapTimes],
+  lapSplits: race.lapSplits.map(splits => [...splits]),
+  finished: race.lap >= race.course.laps
+});
+
+export const createRaceState = (course: RaceCourse): RaceState => ({
+  course,
+  // The run starts on the line
+  next: 1 % course.checkpoints.length,
+  lap: 0,
+  lapStartTime: 0,
+  splits: [],
+  lapTimes: [],
+  lapSplits: []
+});
+
+export type RaceEvent =
+  | { type: 'checkpoint'; index: number; split: number }
+  | { type: 'lapComplete'; lap: number; lapTime: number }
+  | { type: 'raceFinished'; totalTime: number };
+
+// Did the wisp's move this tick go through the ring, in its direction of travel?
+const passesThrough = (checkpoint: Checkpoint, from: Vector3, to: Vector3) => {
+  const d0 = from.clone().sub(checkpoint.position).dot(checkpoint.normal);
+  const d1 = to.clone().sub(checkpoint.position).dot(checkpoint.normal);
+  if (d0 >= 0 || d1 < 0) return false;
+  const crossing = from.clone().lerp(to, d0 / (d0 - d1));
+  return crossing.distanceTo(checkpoint.position) <= RING_RADIUS + RING_TOLERANCE;
+};
+
+export const stepRace = (race: RaceState, from: Vector3, to: Vector3, time: number): RaceEvent[] => {
+  const { checkpoints, laps } = race.course;
+  if (race.lap >= laps || !passesThrough(checkpoints[race.next], from, to)) return [];
+
+  const split = time - race.lapStartTime;
+  if (race.next !== 0) {
+    race.splits.push(split);
+    const events: RaceEvent[] = [{ type: 'checkpoint', index: race.next, split }];
+    race.next = (race.next + 1) % checkpoints.length;
+    return events;
+  }
+
+  // Back over the line
+  race.lapTimes.push(split);
+  race.lapSplits.push(race.splits);
+  race.lap++;
+  race.lapStartTime = time;
+  race.splits = [];
+  race.next = 1 % checkpoints.length;
+  const events: RaceEvent[] = [{ type: 'lapComplete', lap: race.lap, lapTime: split }];
+  if (race.lap >= laps) events.push({ type: 'raceFinished', totalTime: time });
+  return events;
+};
@@ -0,0 +1,78 @@
+// Seedable PRNG shared by every procedural generator.
+// Two runs with the same seed must produce the exact same city, so nothing
+// that shapes the world should ever call Math.random() directly.
+
+const UINT32 = 0x100000000;
+
+// FNV-1a: cheap, stable string -> uint32 hash
+export const hashString = (str: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Combine a base seed with labels so each generator gets its own independent stream
+// (e.g. windows don't shift when the building count changes)
+export const deriveSeed = (seed: number, ...parts: (string | number)[]): number => {
+  let hash = seed >>> 0;
+  for (const part of parts) {
+    hash = Math.imul(hash ^ hashString(String(part)), 0x9e3779b1) >>> 0;
+    hash ^= hash >>> 16;
+  }
+  return hash >>> 0;
+};
+
+// Accepts either a plain number ("1234") or any text ("neon") which gets hashed
+export const parseSeed = (input: string): number | null => {
+  const trimmed = input.trim();
+  if (trimmed.length === 0) return null;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) % UINT32;
+  return hashString(trimmed);
+};
+
+// The only place a seed itself is allowed to come from Math.random()
+export const randomSeed = (): number => Math.floor(Math.random() * UINT32);
+
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Mulberry32 - returns a float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Integer in [0, maxExclusive)
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  // Pick from [item, weight] pairs with probability proportional to weight
+  pickWeighted<T>(items: readonly (readonly [T, number])[]): T {
+    const total = items.reduce((sum, [, w]) => sum + w, 0);
+    let roll = this.next() * total;
+    for (const [item, w] of items) {
+      roll -= w;
+      if (roll < 0) return item;
+    }
+    return items[items.length - 1][0];
+  }
+}
@@ -0,0 +1,278 @@
+import { DistrictId, DISTRICTS } from './districts';
+import { Difficulty, isDifficulty } from './difficulty';
+import { GAME_MODES, GameModeId } from './gameModes';
+import { COURSES, CourseId } from './raceCourse';
+import { TICK_RATE } from './fixedStep';
+import { GameEvent, GameSimulation } from './gameSimulation';
+import { EventSink } from './eventBus';
+import { isKeyOf, isObject, parseJson } from './json';
+import { WispInput } from './wispPhysics';
+
+// Replays are the seed plus one quantized WispInput per tick. Live play runs on the
+// quantized input too (see ReplayRecorder.record), so playback is bit-identical.
+//
+// Frame layout, 7 bytes:
+//   int8 move.x, int8 move.y, uint16 yaw, uint16 pitch (little endian), uint8 flags
+// Files store frames run-length encoded ([count, ...frame]) as base64 inside JSON.
+
+// Bump whenever a simulation change would make older input streams play out differently
+const REPLAY_VERSION = 12;
+const FRAME_BYTES = 7;
+// Longest run a file may claim (4 hours), so a bad header can't ask for a huge buffer
+const MAX_TICKS = 4 * 60 * 60 * TICK_RATE;
+const MAX_RUN = 255;
+const FLAG_JUMP = 1;
+const FLAG_GRAPPLE = 2;
+const FLAG_EMP = 4;
+const FLAG_LURE = 8;
+
+const TWO_PI = Math.PI * 2;
+
+export interface Replay {
+  seed: number;
+  wispColor: string;
+  score: number;
+  styleScore: number;
+  survivalTime: number;
+  district: DistrictId;
+  mode: GameModeId;
+  // Only flown in race mode, but every replay names one
+  course: CourseId;
+  difficulty: Difficulty;
+  date: string; // ISO timestamp
+  frames: Uint8Array;
+}
+
+export const getReplayLength = (replay: Replay) => replay.frames.length / FRAME_BYTES;
+
+const quantizeAxis = (v: number) => Math.round(Math.max(-1, Math.min(1, v)) * 127);
+
+const writeFrame = (out: Uint8Array, offset: number, input: WispInput) => {
+  // Yaw is unbounded (the camera spins freely), so wrap it to one turn first
+  const yaw = ((input.yaw % TWO_PI) + TWO_PI) % TWO_PI;
+  const yawQ = Math.round(yaw / TWO_PI * 65536) & 0xffff;
+  const pitch = Math.max(-Math.PI / 2, Math.min(Math.PI / 2, input.pitch));
+  const pitchQ = Math.round((pitch + Math.PI / 2) / Math.PI * 65535);
+
+  out[offset] = quantizeAxis(input.move.x) & 0xff;
+  out[offset + 1] = quantizeAxis(input.move.y) & 0xff;
+  out[offset + 2] = yawQ & 0xff;
+  out[offset + 3] = yawQ >> 8;
+  out[offset + 4] = pitchQ & 0xff;
+  out[offset + 5] = pitchQ >> 8;
+  out[offset + 6] = (input.jump ? FLAG_JUMP : 0) | (input.grapple ? FLAG_GRAPPLE : 0) |
+    (input.emp ? FLAG_EMP : 0) | (input.lure ? FLAG_LURE : 0);
+};
+
+const readFrame = (frames: Uint8Array, offset: number): WispInput => {
+  const int8 = (b: number) => (b > 127 ? b - 256 : b);
+  const yawQ = frames[offset + 2] | (frames[offset + 3] << 8);
+  const pitchQ = frames[offset + 4] | (frames[offset + 5] << 8);
+  const flags = frames[offset + 6];
+  return {
+    move: { x: int8(frames[offset]) / 127, y: int8(frames[offset + 1]) / 127 },
+    yaw: yawQ / 65536 * TWO_PI,
+    pitch: pitchQ / 65535 * Math.PI - Math.PI / 2,
+    jump: (flags & FLAG_JUMP) !== 0,
+    grapple: (flags & FLAG_GRAPPLE) !== 0,
+    emp: (flags & FLAG_EMP) !== 0,
+    lure: (flags & FLAG_LURE) !== 0
+  };
+};
+
+export const getReplayInput = (replay: Replay, tick: number): WispInput =>
+  readFrame(replay.frames, tick * FRAME_BYTES);
+
+// Collects the input stream of a live run
+export class ReplayRecorder {
+  private buffer = new Uint8Array(FRAME_BYTES * TICK_RATE * 60);
+  private length = 0;
+
+  reset() {
+    this.length = 0;
+  }
+
+  // Stores the input and returns the quantized version the simulation must use
+  record(input: WispInput): WispInput {
+    if (this.length + FRAME_BYTES > this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    writeFrame(this.buffer, this.length, input);
+    const quantized = readFrame(this.buffer, this.length);
+    this.length += FRAME_BYTES;
+    return quantized;
+  }
+
+  finish(meta: Omit<Replay, 'frames'>): Replay {
+    return { ...meta, frames: this.buffer.slice(0, this.length) };
+  }
+}
+
+// --- Files ---
+
+const sameFrame = (frames: Uint8Array, a: number, b: number) => {
+  for (let i = 0; i < FRAME_BYTES; i++) {
+    if (frames[a + i] !== frames[b + i]) return false;
+  }
+  return true;
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const encodeReplay = (replay: Replay): string => {
+  const { frames, ...meta } = replay;
+  const ticks = getReplayLength(replay);
+  const packed: number[] = [];
+  let tick = 0;
+  while (tick < ticks) {
+    // Holding still (or holding a direction) repeats the same frame for many ticks
+    let run = 1;
+    while (run < MAX_RUN && tick + run < ticks && sameFrame(frames, tick * FRAME_BYTES, (tick + run) * FRAME_BYTES)) run++;
+    packed.push(run);
+    for (let i = 0; i < FRAME_BYTES; i++) packed.push(frames[tick * FRAME_BYTES + i]);
+    tick += run;
+  }
+  return JSON.stringify({
+    version: REPLAY_VERSION,
+    tickRate: TICK_RATE,
+    ...meta,
+    ticks,
+    frames: toBase64(Uint8Array.from(packed))
+  });
+};
+
+// Parses a replay file; throws with a readable message on anything unusable
+export const decodeReplay = (json: string): Replay => {
+  const data = parseJson(json);
+  if (!isObject(data) || typeof data.version !== 'number' || typeof data.frames !== 'string') throw new Error('Not a replay file');
+  if (data.version !== REPLAY_VERSION) throw new Error('Replay was recorded with a different version of the game');
+  if (data.tickRate !== TICK_RATE) throw new Error('Replay was recorded with a different tick rate');
+  if (typeof data.seed !== 'number' || typeof data.ticks !== 'number' ||
+      !Number.isInteger(data.ticks) || data.ticks < 0 || data.ticks > MAX_TICKS || !isKeyOf(DISTRICTS, data.district) ||
+      !isKeyOf(GAME_MODES, data.mode) || !isKeyOf(COURSES, data.course) || !isDifficulty(data.difficulty)) {
+    throw new Error('Replay is missing run details');
+  }
+
+  let packed: Uint8Array;
+  try {
+    packed = fromBase64(data.frames);
+  } catch {
+    throw new Error('Replay input data is corrupted');
+  }
+  const frames = new Uint8Array(data.ticks * FRAME_BYTES);
+  let offset = 0;
+  for (let i = 0; i + FRAME_BYTES + 1 <= packed.length && offset < frames.length; i += FRAME_BYTES + 1) {
+    const run = packed[i];
+    const frame = packed.subarray(i + 1, i + 1 + FRAME_BYTES);
+    for (let r = 0; r < run && offset < frames.length; r++, offset += FRAME_BYTES) frames.set(frame, offset);
+  }
+  if (offset !== frames.length) throw new Error('Replay input data is truncated');
+
+  return {
+    seed: data.seed,
+    wispColor: typeof data.wispColor === 'string' ? data.wispColor : '#00ffff',
+    score: typeof data.score === 'number' ? data.score : 0,
+    styleScore: typeof data.styleScore === 'number' ? data.styleScore : 0,
+    survivalTime: typeof data.survivalTime === 'number' ? data.survivalTime : data.ticks / TICK_RATE,
+    district: data.district,
+    mode: data.mode,
+    course: data.course,
+    difficulty: data.difficulty,
+    date: typeof data.date === 'string' ? data.date : new Date().toISOString(),
+    frames
+  };
+};
+
+// --- Playback ---
+
+// Real time a seek may spend catching up per update before yielding a frame
+const SEEK_BUDGET_MS = 8;
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Plays a replay through its own simulation. Seeking backwards restarts from tick 0
+// and fast-forwards (the sim can't run backwards), spread over several frames.
+export class ReplayPlayer {
+  readonly sim: GameSimulation;
+  readonly length: number;
+  playing = true;
+  speed = 1;
+  private seekTarget: number | null = null;
+  private carry = 0;
+
+  // The sim itself isn't given the bus: ticks skipped over while seeking stay silent
+  constructor(readonly replay: Replay, private readonly bus: EventSink<GameEvent> | null = null) {
+    this.sim = new GameSimulation(replay.seed, replay.difficulty, GAME_MODES[replay.mode], replay.course);
+    this.length = getReplayLength(replay);
+  }
+
+  get tick() {
+    return this.sim.tick;
+  }
+
+  get seeking() {
+    return this.seekTarget !== null;
+  }
+
+  get ended() {
+    return this.sim.tick >= this.length || this.sim.over;
+  }
+
+  seek(tick: number) {
+    const target = Math.max(0, Math.min(this.length, Math.round(tick)));
+    if (target < this.sim.tick) this.sim.reset();
+    this.seekTarget = target;
+  }
+
+  togglePlaying() {
+    // Play again from the start once the end is reached
+    if (this.ended) {
+      this.seek(0);
+      this.playing = true;
+      return;
+    }
+    this.playing = !this.playing;
+    if (!this.playing) this.sim.settle();
+  }
+
+  // Called once per fixed tick. Returns (and publishes) the events of ticks played at normal pace.
+  update(): GameEvent[] {
+    if (this.seekTarget !== null) {
+      const deadline = performance.now() + SEEK_BUDGET_MS;
+      while (this.sim.tick < this.seekTarget && !this.sim.over && performance.now() < deadline) this.stepOnce();
+      if (this.sim.tick >= this.seekTarget || this.sim.over) {
+        this.seekTarget = null;
+        this.sim.settle();
+      }
+      return [];
+    }
+
+    if (!this.playing || this.ended) return [];
+    const events: GameEvent[] = [];
+    this.carry += this.speed;
+    while (this.carry >= 1 && !this.ended) {
+      this.carry -= 1;
+      events.push(...this.stepOnce());
+    }
+    if (this.ended) this.sim.settle();
+    const bus = this.bus;
+    if (bus) events.forEach(event => bus.publish(event));
+    return events;
+  }
+
+  private stepOnce(): GameEvent[] {
+    return this.sim.step(getReplayInput(this.replay, this.sim.tick));
+  }
+}
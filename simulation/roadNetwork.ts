@@ -0,0 +1,237 @@
+import { SeededRandom, deriveSeed } from './random';
+import { CHUNK_SIZE, chunkKey, toChunkCoord } from './chunks';
+
+// Street layout. Every chunk border is an arterial avenue, and local streets cut
+// each chunk into blocks. Street offsets only depend on the chunk column (or row),
+// so streets line up across chunk borders and form long straight corridors.
+// A district may close some streets inside a chunk to merge blocks.
+//
+// The road graph has a node at every intersection and an edge per street segment.
+// Each chunk owns the avenues on its -X and -Z borders plus its interior streets,
+// so no edge is ever produced by two chunks.
+
+export type RoadKind = 'avenue' | 'street';
+
+export interface RoadNode {
+  id: string;
+  x: number;
+  z: number;
+}
+
+export interface RoadEdge {
+  id: string;
+  a: string;
+  b: string;
+  kind: RoadKind;
+  width: number;
+}
+
+export interface ChunkRoads {
+  nodes: RoadNode[];
+  edges: RoadEdge[];
+}
+
+// Buildable area between roads
+export interface Block {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+export const AVENUE_WIDTH = 40;
+export const STREET_WIDTH = 20;
+const STREETS_PER_CHUNK = 3;
+
+const nodeId = (x: number, z: number) => `${x},${z}`;
+
+// Offsets (0..CHUNK_SIZE) of the local streets in a chunk column (axis 'x') or row (axis 'z')
+export const getStreetOffsets = (seed: number, axis: 'x' | 'z', index: number): number[] => {
+  const rng = new SeededRandom(deriveSeed(seed, 'streets', axis, index));
+  const span = CHUNK_SIZE / (STREETS_PER_CHUNK + 1);
+  const offsets: number[] = [];
+  for (let i = 1; i <= STREETS_PER_CHUNK; i++) {
+    offsets.push(Math.round(i * span + (rng.next() - 0.5) * span * 0.4));
+  }
+  return offsets;
+};
+
+export const generateChunkRoads = (
+  seed: number,
+  cx: number,
+  cz: number,
+  streetClosure: number
+): { roads: ChunkRoads; blocks: Block[] } => {
+  const rng = new SeededRandom(deriveSeed(seed, 'roads', cx, cz));
+  const originX = cx * CHUNK_SIZE;
+  const originZ = cz * CHUNK_SIZE;
+
+  // Street lines crossing this chunk (constant x / constant z)
+  const streetXs = getStreetOffsets(seed, 'x', cx).map(o => originX + o);
+  const streetZs = getStreetOffsets(seed, 'z', cz).map(o => originZ + o);
+  const openXs = streetXs.filter(() => rng.next() >= streetClosure);
+  const openZs = streetZs.filter(() => rng.next() >= streetClosure);
+
+  // Every crossing point, so open streets meet avenues and each other at nodes
+  const cutXs = [originX, ...streetXs, originX + CHUNK_SIZE];
+  const cutZs = [originZ, ...streetZs, originZ + CHUNK_SIZE];
+
+  const nodes = new Map<string, RoadNode>();
+  const edges: RoadEdge[] = [];
+
+  const addEdge = (x1: number, z1: number, x2: number, z2: number, kind: RoadKind) => {
+    const a = nodeId(x1, z1);
+    const b = nodeId(x2, z2);
+    if (!nodes.has(a)) nodes.set(a, { id: a, x: x1, z: z1 });
+    if (!nodes.has(b)) nodes.set(b, { id: b, x: x2, z: z2 });
+    edges.push({ id: `${a}|${b}`, a, b, kind, width: kind === 'avenue' ? AVENUE_WIDTH : STREET_WIDTH });
+  };
+
+  // Owned avenues: the -X and -Z borders
+  for (let i = 0; i < cutZs.length - 1; i++) addEdge(originX, cutZs[i], originX, cutZs[i + 1], 'avenue');
+  for (let i = 0; i < cutXs.length - 1; i++) addEdge(cutXs[i], originZ, cutXs[i + 1], originZ, 'avenue');
+
+  // Open local streets, split at every crossing
+  openXs.forEach(x => {
+    for (let i = 0; i < cutZs.length - 1; i++) addEdge(x, cutZs[i], x, cutZs[i + 1], 'street');
+  });
+  openZs.forEach(z => {
+    for (let i = 0; i < cutXs.length - 1; i++) addEdge(cutXs[i], z, cutXs[i + 1], z, 'street');
+  });
+
+  // Blocks are what's left between open roads
+  const boundsX = [originX, ...openXs, originX + CHUNK_SIZE];
+  const boundsZ = [originZ, ...openZs, originZ + CHUNK_SIZE];
+  const halfWidth = (v: number, origin: number) =>
+    (v === origin || v === origin + CHUNK_SIZE ? AVENUE_WIDTH : STREET_WIDTH) / 2;
+
+  const blocks: Block[] = [];
+  for (let i = 0; i < boundsX.length - 1; i++) {
+    for (let j = 0; j < boundsZ.length - 1; j++) {
+      blocks.push({
+        minX: boundsX[i] + halfWidth(boundsX[i], originX),
+        maxX: boundsX[i + 1] - halfWidth(boundsX[i + 1], originX),
+        minZ: boundsZ[j] + halfWidth(boundsZ[j], originZ),
+        maxZ: boundsZ[j + 1] - halfWidth(boundsZ[j + 1], originZ)
+      });
+    }
+  }
+
+  return { roads: { nodes: Array.from(nodes.values()), edges }, blocks };
+};
+
+interface NodeEntry {
+  node: RoadNode;
+  // Chunks referencing this node (border nodes are shared)
+  refs: number;
+  edges: Set<string>;
+}
+
+// Road graph of the resident chunks
+export class RoadGraph {
+  private nodes = new Map<string, NodeEntry>();
+  private edges = new Map<string, RoadEdge>();
+  // Node ids bucketed by chunk for nearest-node queries
+  private buckets = new Map<string, Set<string>>();
+
+  get nodeCount() {
+    return this.nodes.size;
+  }
+
+  get edgeCount() {
+    return this.edges.size;
+  }
+
+  addChunk(roads: ChunkRoads) {
+    roads.nodes.forEach(node => {
+      const entry = this.nodes.get(node.id);
+      if (entry) {
+        entry.refs++;
+        return;
+      }
+      this.nodes.set(node.id, { node, refs: 1, edges: new Set() });
+      const key = chunkKey(toChunkCoord(node.x), toChunkCoord(node.z));
+      let bucket = this.buckets.get(key);
+      if (!bucket) {
+        bucket = new Set();
+        this.buckets.set(key, bucket);
+      }
+      bucket.add(node.id);
+    });
+
+    roads.edges.forEach(edge => {
+      this.edges.set(edge.id, edge);
+      this.nodes.get(edge.a)!.edges.add(edge.id);
+      this.nodes.get(edge.b)!.edges.add(edge.id);
+    });
+  }
+
+  removeChunk(roads: ChunkRoads) {
+    roads.edges.forEach(edge => {
+      this.edges.delete(edge.id);
+      this.nodes.get(edge.a)?.edges.delete(edge.id);
+      this.nodes.get(edge.b)?.edges.delete(edge.id);
+    });
+
+    roads.nodes.forEach(node => {
+      const entry = this.nodes.get(node.id);
+      if (!entry || --entry.refs > 0) return;
+      this.nodes.delete(node.id);
+      const key = chunkKey(toChunkCoord(node.x), toChunkCoord(node.z));
+      const bucket = this.buckets.get(key);
+      bucket?.delete(node.id);
+      if (bucket && bucket.size === 0) this.buckets.delete(key);
+    });
+  }
+
+  clear() {
+    this.nodes.clear();
+    this.edges.clear();
+    this.buckets.clear();
+  }
+
+  getNode(id: string): RoadNode | null {
+    return this.nodes.get(id)?.node ?? null;
+  }
+
+  // Nodes one edge away from `id`
+  neighbors(id: string): RoadNode[] {
+    const entry = this.nodes.get(id);
+    if (!entry) return [];
+    const result: RoadNode[] = [];
+    entry.edges.forEach(edgeId => {
+      const edge = this.edges.get(edgeId)!;
+      const other = this.nodes.get(edge.a === id ? edge.b : edge.a);
+      if (other) result.push(other.node);
+    });
+    return result;
+  }
+
+  forEachEdge(visit: (edge: RoadEdge, a: RoadNode, b: RoadNode) => void) {
+    this.edges.forEach(edge => visit(edge, this.nodes.get(edge.a)!.node, this.nodes.get(edge.b)!.node));
+  }
+
+  // Closest intersection, searching the surrounding chunks only
+  nearestNode(x: number, z: number): RoadNode | null {
+    const cx = toChunkCoord(x);
+    const cz = toChunkCoord(z);
+    let best: RoadNode | null = null;
+    let bestDistSq = Infinity;
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        const bucket = this.buckets.get(chunkKey(cx + dx, cz + dz));
+        if (!bucket) continue;
+        for (const id of bucket) {
+          const node = this.nodes.get(id)!.node;
+          const distSq = (node.x - x) ** 2 + (node.z - z) ** 2;
+          if (distSq < bestDistSq) {
+            bestDistSq = distSq;
+            best = node;
+          }
+        }
+      }
+    }
+    return best;
+  }
+}
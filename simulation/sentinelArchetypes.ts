@@ -0,0 +1,104 @@
+// Sentinel archetypes. Behaviour lives in sentinels.ts; this is the tuning for each
+// type and how often the director picks it.
+
+export type SentinelType = 'seeker' | 'patroller' | 'sniper' | 'drone' | 'heavy' | 'hunter';
+
+export interface SentinelArchetype {
+  type: SentinelType;
+  // Body colour; aggro pulses towards white
+  color: string;
+  // Scales the director's sentinel speed
+  speedMultiplier: number;
+  // Scales the district's aggro range
+  aggroMultiplier: number;
+  // Collision size; touching within this distance ends the run
+  radius: number;
+  // Relative spawn frequency once unlocked
+  spawnWeight: number;
+  // Seconds into the run before the director starts using this type
+  unlockTime: number;
+  // Spawned together (swarms); each one still counts against the sentinel cap
+  groupSize: number;
+}
+
+export const SENTINEL_ARCHETYPES: Record<SentinelType, SentinelArchetype> = {
+  // The original: patrols the streets, then chases once it spots you
+  seeker: {
+    type: 'seeker',
+    color: '#ff0033',
+    speedMultiplier: 1.0,
+    aggroMultiplier: 1.0,
+    radius: 2.0,
+    spawnWeight: 4,
+    unlockTime: 0,
+    groupSize: 1
+  },
+  // Loops a fixed route between rooftops; only breaks off for close passes
+  patroller: {
+    type: 'patroller',
+    color: '#ff8800',
+    speedMultiplier: 0.8,
+    aggroMultiplier: 0.5,
+    radius: 2.0,
+    spawnWeight: 2,
+    unlockTime: 0,
+    groupSize: 1
+  },
+  // Small, fast and always in a pack
+  drone: {
+    type: 'drone',
+    color: '#ffee00',
+    speedMultiplier: 1.4,
+    aggroMultiplier: 0.8,
+    radius: 1.0,
+    spawnWeight: 2,
+    unlockTime: 30,
+    groupSize: 3
+  },
+  // Leads its target: heads for where you're going to be
+  hunter: {
+    type: 'hunter',
+    color: '#00ff66',
+    speedMultiplier: 1.0,
+    aggroMultiplier: 1.3,
+    radius: 2.0,
+    spawnWeight: 1.5,
+    unlockTime: 45,
+    groupSize: 1
+  },
+  // Hangs back and charges a telegraphed beam along its line of sight
+  sniper: {
+    type: 'sniper',
+    color: '#ff00aa',
+    speedMultiplier: 0.7,
+    aggroMultiplier: 1.5,
+    radius: 2.0,
+    spawnWeight: 1.5,
+    unlockTime: 60,
+    groupSize: 1
+  },
+  // Slow and huge; its field won't hold a grapple
+  heavy: {
+    type: 'heavy',
+    color: '#8844ff',
+    speedMultiplier: 0.6,
+    aggroMultiplier: 1.0,
+    radius: 3.5,
+    spawnWeight: 1,
+    unlockTime: 90,
+    groupSize: 1
+  }
+};
+
+export const SENTINEL_TYPES = Object.keys(SENTINEL_ARCHETYPES) as SentinelType[];
+
+// Grapple anchors this close to a heavy won't hold
+export const HEAVY_FIELD_RADIUS = 40;
+
+// Sniper beam timing (seconds): it tracks you while charging, then locks its aim
+// for the last moment before firing so there's time to get out of the line
+export const SNIPER_CHARGE_TIME = 1.6;
+export const SNIPER_LOCK_TIME = 1.2;
+export const SNIPER_COOLDOWN = 2.5;
+// How close to the beam's line counts as a hit
+export const SNIPER_BEAM_WIDTH = 2.5;
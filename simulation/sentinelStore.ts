@@ -0,0 +1,62 @@
+import { SentinelState } from './sentinels';
+
+// Every live sentinel of a run, owned by the simulation. Entities are addressed by
+// their stable id, never by position in a list, so renderers and effects can hold
+// on to an id across ticks and just find it gone once the sentinel is destroyed.
+// Iteration order is spawn order, which keeps the AI step deterministic.
+
+// Renderers size their instance buffers to this; the director never spawns past it
+export const MAX_SENTINELS = 64;
+
+export class SentinelStore {
+  private entities: SentinelState[] = [];
+  private indexById = new Map<string, number>();
+  // Bumped whenever a sentinel is added or removed
+  version = 0;
+
+  get size() {
+    return this.entities.length;
+  }
+
+  // Live sentinels in spawn order. Don't hold on to the array across ticks.
+  get all(): readonly SentinelState[] {
+    return this.entities;
+  }
+
+  get(id: string): SentinelState | undefined {
+    const index = this.indexById.get(id);
+    return index === undefined ? undefined : this.entities[index];
+  }
+
+  has(id: string): boolean {
+    return this.indexById.has(id);
+  }
+
+  add(sentinel: SentinelState) {
+    if (this.indexById.has(sentinel.id)) throw new Error(`Sentinel ${sentinel.id} already exists`);
+    if (this.entities.length >= MAX_SENTINELS) throw new Error('Too many sentinels');
+    this.indexById.set(sentinel.id, this.entities.length);
+    this.entities.push(sentinel);
+    this.version++;
+  }
+
+  // Removes all of `ids` in one pass; unknown ids are ignored
+  remove(ids: Iterable<string>) {
+    const doomed = new Set(ids);
+    if (![...doomed].some(id => this.indexById.has(id))) return;
+    this.entities = this.entities.filter(s => !doomed.has(s.id));
+    this.reindex();
+    this.version++;
+  }
+
+  clear() {
+    this.entities = [];
+    this.indexById.clear();
+    this.version++;
+  }
+
+  private reindex() {
+    this.indexById.clear();
+    this.entities.forEach((s, i) => this.indexById.set(s.id, i));
+  }
+}
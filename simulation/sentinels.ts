@@ -0,0 +1,563 @@
+import { Vector3 } from 'three';
+import { BuildingPart, DeathCause } from '../types';
+import { SeededRandom } from './random';
+import { RoadGraph } from './roadNetwork';
+import { CityStreamer } from './cityStreamer';
+import { BuildingGrid, boxAround } from './spatialGrid';
+import { WispSimState } from './wispPhysics';
+import { PathPlanner } from './navigation';
+import { SentinelStore } from './sentinelStore';
+import { EMP_DESTROY_RADIUS, EMP_RADIUS, EMP_STUN_TIME } from './abilities';
+import {
+  HEAVY_FIELD_RADIUS,
+  SENTINEL_ARCHETYPES,
+  SNIPER_BEAM_WIDTH,
+  SNIPER_CHARGE_TIME,
+  SNIPER_COOLDOWN,
+  SNIPER_LOCK_TIME,
+  SentinelType
+} from './sentinelArchetypes';
+
+// Headless sentinel AI. Randomness comes from the caller's seeded stream and all
+// state lives on plain objects, so a run replays identically from its inputs.
+
+export interface SniperBeam {
+  phase: 'idle' | 'charging' | 'cooldown';
+  // Seconds since the phase started
+  timer: number;
+  // Where the beam points (tracks the player until it locks)
+  target: Vector3;
+  // The cooldown followed a shot rather than a lost target
+  fired: boolean;
+}
+
+// patrol: unaware, wandering its streets / route
+// chase: can see the player (or a swarm mate can) and goes straight for them
+// search: lost sight or heard something; checks the last known position, then gives up
+export type SentinelAwareness = 'patrol' | 'chase' | 'search';
+
+// Something loud the player did this tick
+export interface Noise {
+  position: Vector3;
+  // Sentinels within this distance hear it, walls or not
+  radius: number;
+}
+
+export interface SentinelState {
+  id: string;
+  type: SentinelType;
+  position: Vector3;
+  // Position at the start of the latest tick, for render interpolation
+  prevPosition: Vector3;
+  // Units per second over the latest tick
+  velocity: Vector3;
+  speed: number;
+  awareness: SentinelAwareness;
+  // Where the player was last seen or heard; while searching, the spot being checked
+  lastKnownPosition: Vector3;
+  // Seconds since the search started
+  searchTimer: number;
+  wanderTarget: Vector3;
+  // Patrollers: rooftop loop and the stop they're heading for
+  route: Vector3[];
+  routeIndex: number;
+  // Drones: one swarm shares aggro and never crashes into itself
+  swarmId: number | null;
+  // Drones: spot around the player this one closes in on, so a swarm surrounds you
+  swarmOffset: Vector3;
+  beam: SniperBeam | null;
+  // Seconds left knocked out by an EMP: no moving, no senses, harmless
+  stunTimer: number;
+  // Waypoints around the buildings between it and its target (empty: fly straight)
+  path: Vector3[];
+  pathIndex: number;
+  // Target the current path, or the request still being planned, leads to
+  pathGoal: Vector3 | null;
+  // Seconds until it next checks whether it needs a path
+  navTimer: number;
+}
+
+export type SentinelEvent =
+  | { type: 'sentinelAggro'; sentinelType: SentinelType; position: Vector3; distance: number }
+  | { type: 'sniperCharge'; position: Vector3; distance: number }
+  | { type: 'sniperFire'; position: Vector3; target: Vector3; distance: number };
+
+// Something reached the player: a sentinel touching it or a sniper beam
+export interface SentinelHit {
+  cause: DeathCause;
+  // Where it came from (the wisp is knocked away from here)
+  source: Vector3;
+}
+
+export interface SentinelStepResult {
+  // Closest sentinel to the player this tick
+  minDistance: number;
+  // First thing that hit the player this tick, if anything did
+  hit: SentinelHit | null;
+  // Midpoint of every pair that crashed into each other
+  collisions: Vector3[];
+  events: SentinelEvent[];
+}
+
+const ROUTE_STOPS = 4;
+const ROUTE_SEARCH_RADIUS = 200;
+const ROOF_CLEARANCE = 10;
+const SWARM_SPACING = 4;
+
+// Once chasing, sight holds out to this multiple of the aggro range
+const PURSUIT_RANGE = 1.5;
+// Seconds a search lasts (getting there included) before giving up
+const SEARCH_TIME = 10;
+// How far each hop of a search strays from the previous spot
+const SEARCH_RADIUS = 40;
+
+// How often a sentinel checks whether its target is in the open (staggered per sentinel)
+const NAV_CHECK_INTERVAL = 0.5;
+// Target movement that makes a path stale
+const REPATH_DISTANCE = 15;
+const WAYPOINT_REACHED = 6;
+
+const partTop = (p: BuildingPart) => p.position[1] + p.scale[1] / 2;
+
+// Idle sentinels patrol the street grid: fly to the nearest intersection, then on to a
+// random neighbouring one. Falls back to drifting when no roads are loaded nearby.
+export const getPatrolTarget = (rng: SeededRandom, roads: RoadGraph, from: Vector3, atNode: boolean): Vector3 => {
+  const y = Math.max(10, from.y + (rng.next() - 0.5) * 20);
+  const node = roads.nearestNode(from.x, from.z);
+  if (!node) {
+    return from.clone().add(new Vector3(
+      (rng.next() - 0.5) * 100,
+      (rng.next() - 0.5) * 50,
+      (rng.next() - 0.5) * 100
+    ));
+  }
+
+  const options = atNode ? roads.neighbors(node.id) : [];
+  const next = options.length > 0 ? rng.pick(options) : node;
+  return new Vector3(next.x, y, next.z);
+};
+
+// A few of the tallest nearby roofs, visited in order around their centre so the
+// loop doesn't cross itself. Empty when there aren't enough buildings around.
+const buildRooftopRoute = (rng: SeededRandom, grid: BuildingGrid, from: Vector3): Vector3[] => {
+  const parts = grid.queryBox({
+    minX: from.x - ROUTE_SEARCH_RADIUS, minY: 0, minZ: from.z - ROUTE_SEARCH_RADIUS,
+    maxX: from.x + ROUTE_SEARCH_RADIUS, maxY: Infinity, maxZ: from.z + ROUTE_SEARCH_RADIUS
+  });
+
+  // Highest part of each building is its roof
+  const roofs = new Map<string, BuildingPart>();
+  for (const part of parts) {
+    const current = roofs.get(part.buildingId);
+    if (!current || partTop(part) > partTop(current)) roofs.set(part.buildingId, part);
+  }
+  const candidates = [...roofs.values()].sort((a, b) => partTop(b) - partTop(a)).slice(0, ROUTE_STOPS * 3);
+  if (candidates.length < 2) return [];
+
+  const stops: BuildingPart[] = [];
+  while (stops.length < ROUTE_STOPS && candidates.length > 0) {
+    stops.push(candidates.splice(rng.int(candidates.length), 1)[0]);
+  }
+  const route = stops.map(p => new Vector3(p.position[0], partTop(p) + ROOF_CLEARANCE, p.position[2]));
+  const center = route.reduce((sum, p) => sum.add(p), new Vector3()).divideScalar(route.length);
+  return route.sort((a, b) => Math.atan2(a.z - center.z, a.x - center.x) - Math.atan2(b.z - center.z, b.x - center.x));
+};
+
+export const createSentinel = (
+  rng: SeededRandom,
+  city: CityStreamer,
+  id: string,
+  type: SentinelType,
+  position: Vector3,
+  speed: number,
+  swarmId: number | null = null
+): SentinelState => {
+  const route = type === 'patroller' ? buildRooftopRoute(rng, city.grid, position) : [];
+  return {
+    id,
+    type,
+    position: position.clone(),
+    prevPosition: position.clone(),
+    velocity: new Vector3(),
+    speed,
+    awareness: 'patrol',
+    lastKnownPosition: position.clone(),
+    searchTimer: 0,
+    // Head for the nearest street to start patrolling
+    wanderTarget: getPatrolTarget(rng, city.roads, position, false),
+    route,
+    routeIndex: 0,
+    swarmId,
+    swarmOffset: type === 'drone'
+      ? new Vector3(rng.next() - 0.5, rng.next() - 0.5, rng.next() - 0.5).normalize().multiplyScalar(6)
+      : new Vector3(),
+    beam: type === 'sniper' ? { phase: 'idle', timer: 0, target: position.clone(), fired: false } : null,
+    stunTimer: 0,
+    path: [],
+    pathIndex: 0,
+    pathGoal: null,
+    navTimer: rng.next() * NAV_CHECK_INTERVAL
+  };
+};
+
+// Nothing solid between the two points
+export const hasLineOfSight = (grid: BuildingGrid, from: Vector3, to: Vector3): boolean => {
+  const toTarget = to.clone().sub(from);
+  const dist = toTarget.length();
+  if (dist < 0.001) return true;
+  return grid.raycast(from, toTarget.divideScalar(dist), dist) === null;
+};
+
+// Heavies stop grapple ropes from holding anywhere inside their field
+export const isAnchorBlocked = (sentinels: readonly SentinelState[], point: Vector3): boolean =>
+  sentinels.some(s => s.type === 'heavy' && s.position.distanceTo(point) < HEAVY_FIELD_RADIUS);
+
+// EMP pulse at `center`: destroys the sentinels closest to it and stuns the rest in
+// range. Returns where each destroyed one was.
+export const applyEmp = (store: SentinelStore, planner: PathPlanner, center: Vector3): Vector3[] => {
+  const destroyed: SentinelState[] = [];
+  store.all.forEach(sentinel => {
+    const dist = sentinel.position.distanceTo(center);
+    if (dist < EMP_DESTROY_RADIUS) {
+      destroyed.push(sentinel);
+    } else if (dist < EMP_RADIUS) {
+      sentinel.stunTimer = EMP_STUN_TIME;
+      // A shot being charged is lost
+      if (sentinel.beam) {
+        sentinel.beam.phase = 'cooldown';
+        sentinel.beam.timer = 0;
+        sentinel.beam.fired = false;
+      }
+    }
+  });
+  destroyed.forEach(s => planner.cancel(s.id));
+  store.remove(destroyed.map(s => s.id));
+  return destroyed.map(s => s.position.clone());
+};
+
+// Shortest distance from `point` to the ray starting at `origin` through `through`
+const distanceToRay = (point: Vector3, origin: Vector3, through: Vector3): number => {
+  const dir = through.clone().sub(origin).normalize();
+  const toPoint = point.clone().sub(origin);
+  const t = Math.max(0, toPoint.dot(dir));
+  return toPoint.sub(dir.multiplyScalar(t)).length();
+};
+
+// Where to steer this tick to reach `target`: straight at it while nothing's in the
+// way, otherwise along a planned path. The sliding collision below still handles
+// whatever the coarse nav grid misses.
+const steerTowards = (sentinel: SentinelState, target: Vector3, city: CityStreamer, planner: PathPlanner, dt: number): Vector3 => {
+  const position = sentinel.position;
+  sentinel.navTimer -= dt;
+  if (sentinel.navTimer <= 0) {
+    sentinel.navTimer += NAV_CHECK_INTERVAL;
+    if (hasLineOfSight(city.grid, position, target)) {
+      sentinel.path = [];
+      sentinel.pathGoal = null;
+      planner.cancel(sentinel.id);
+    } else if (!planner.isPending(sentinel.id) &&
+      (sentinel.path.length === 0 || !sentinel.pathGoal || sentinel.pathGoal.distanceTo(target) > REPATH_DISTANCE)) {
+      planner.request(sentinel.id, position, target);
+      sentinel.pathGoal = target.clone();
+    }
+  }
+
+  const planned = planner.takePath(sentinel.id);
+  if (planned) {
+    sentinel.path = planned;
+    sentinel.pathIndex = 0;
+  }
+
+  const path = sentinel.path;
+  while (sentinel.pathIndex < path.length && position.distanceTo(path[sentinel.pathIndex]) < WAYPOINT_REACHED) {
+    sentinel.pathIndex++;
+  }
+  if (sentinel.pathIndex < path.length) return path[sentinel.pathIndex];
+  sentinel.path = [];
+  return target;
+};
+
+// Moves every sentinel one tick and removes the ones that crashed or left the
+// streamed city from the store.
+export const stepSentinels = (
+  store: SentinelStore,
+  player: WispSimState,
+  city: CityStreamer,
+  planner: PathPlanner,
+  rng: SeededRandom,
+  noises: Noise[],
+  // Cloaked by a void star: nothing sees the wisp, and swarms lose track of it
+  hidden: boolean,
+  dt: number
+): SentinelStepResult => {
+  const result: SentinelStepResult = { minDistance: 1000, hit: null, collisions: [], events: [] };
+  const sentinels = store.all;
+  const playerPos = player.position;
+  // Sentinels that wandered off the streamed city are dropped quietly
+  const deadIds = new Set<string>();
+
+  // A swarm shares what it sees
+  const huntingSwarms = new Set<number>();
+  if (!hidden) sentinels.forEach(s => { if (s.swarmId !== null && s.awareness === 'chase') huntingSwarms.add(s.swarmId); });
+
+  // 1. Movement & Player Collision
+  sentinels.forEach(sentinel => {
+    const archetype = SENTINEL_ARCHETYPES[sentinel.type];
+    const currentPos = sentinel.position;
+    sentinel.prevPosition.copy(currentPos);
+    const dist = currentPos.distanceTo(playerPos);
+    if (dist < result.minDistance) result.minDistance = dist;
+
+    if (sentinel.stunTimer > 0) {
+      sentinel.stunTimer = Math.max(0, sentinel.stunTimer - dt);
+      sentinel.velocity.set(0, 0, 0);
+      return;
+    }
+
+    // District tunes how far they see and how fast they move
+    const { sentinel: districtRules } = city.districtAt(currentPos.x, currentPos.z);
+    const aggroRange = districtRules.aggroRange * archetype.aggroMultiplier;
+
+    // --- Perception ---
+    const wasChasing = sentinel.awareness === 'chase';
+    const sightRange = wasChasing ? aggroRange * PURSUIT_RANGE : aggroRange;
+    // Buildings block sight, so towers are cover
+    const canSee = !hidden && dist < sightRange && hasLineOfSight(city.grid, currentPos, playerPos);
+    const heard = noises.find(n => n.position.distanceTo(currentPos) < n.radius);
+
+    if (canSee || (sentinel.swarmId !== null && huntingSwarms.has(sentinel.swarmId))) {
+      if (!wasChasing && canSee) {
+        result.events.push({ type: 'sentinelAggro', sentinelType: sentinel.type, position: currentPos.clone(), distance: dist });
+      }
+      sentinel.awareness = 'chase';
+      sentinel.lastKnownPosition.copy(playerPos);
+    } else if (heard) {
+      // Go and look where the noise came from
+      sentinel.awareness = 'search';
+      sentinel.lastKnownPosition.copy(heard.position);
+      sentinel.searchTimer = 0;
+    } else if (wasChasing) {
+      // Lost sight: head for where the player was last seen
+      sentinel.awareness = 'search';
+      sentinel.searchTimer = 0;
+    }
+
+    if (sentinel.awareness === 'search') {
+      sentinel.searchTimer += dt;
+      if (sentinel.searchTimer > SEARCH_TIME) {
+        // Give up and go back to patrolling (patrollers resume their loop)
+        sentinel.awareness = 'patrol';
+        sentinel.wanderTarget = getPatrolTarget(rng, city.roads, currentPos, false);
+      } else if (currentPos.distanceTo(sentinel.lastKnownPosition) < 10) {
+        // Nothing here: look around nearby
+        sentinel.lastKnownPosition.add(new Vector3(
+          (rng.next() - 0.5) * 2 * SEARCH_RADIUS,
+          (rng.next() - 0.5) * 20,
+          (rng.next() - 0.5) * 2 * SEARCH_RADIUS
+        ));
+        sentinel.lastKnownPosition.y = Math.max(10, sentinel.lastKnownPosition.y);
+      }
+    }
+    const chasing = sentinel.awareness === 'chase';
+
+    // null target: hold position this tick
+    let moveTarget: Vector3 | null = playerPos;
+    let effectiveSpeed = sentinel.speed * districtRules.speedMultiplier * archetype.speedMultiplier;
+
+    if (sentinel.type === 'sniper') {
+      // --- SNIPER: keep distance, charge, fire ---
+      const beam = sentinel.beam!;
+      beam.timer += dt;
+      if (beam.phase === 'idle') {
+        if (chasing && canSee && dist < aggroRange) {
+          beam.phase = 'charging';
+          beam.timer = 0;
+          beam.target.copy(playerPos);
+          result.events.push({ type: 'sniperCharge', position: currentPos.clone(), distance: dist });
+        }
+      } else if (beam.phase === 'charging') {
+        if (beam.timer < SNIPER_LOCK_TIME) {
+          if (chasing && canSee) {
+            beam.target.copy(playerPos);
+          } else {
+            // Lost the shot before locking: short reset instead of a full cooldown
+            beam.phase = 'cooldown';
+            beam.timer = SNIPER_COOLDOWN - 0.5;
+            beam.fired = false;
+          }
+        } else if (beam.timer >= SNIPER_CHARGE_TIME) {
+          const hit = distanceToRay(playerPos, currentPos, beam.target) < SNIPER_BEAM_WIDTH &&
+            playerPos.clone().sub(currentPos).dot(beam.target.clone().sub(currentPos)) > 0 &&
+            hasLineOfSight(city.grid, currentPos, playerPos);
+          if (hit && !result.hit) result.hit = { cause: 'sniperBeam', source: currentPos.clone() };
+          result.events.push({ type: 'sniperFire', position: currentPos.clone(), target: beam.target.clone(), distance: dist });
+          beam.phase = 'cooldown';
+          beam.timer = 0;
+          beam.fired = true;
+        }
+      } else if (beam.timer >= SNIPER_COOLDOWN) {
+        beam.phase = 'idle';
+        beam.timer = 0;
+      }
+
+      if (sentinel.awareness === 'search') {
+        effectiveSpeed *= 0.5;
+        moveTarget = sentinel.lastKnownPosition;
+      } else if (!chasing) {
+        effectiveSpeed *= 0.3;
+        moveTarget = sentinel.wanderTarget;
+        if (currentPos.distanceTo(moveTarget) < 10) {
+          sentinel.wanderTarget = getPatrolTarget(rng, city.roads, currentPos, true);
+        }
+      } else if (beam.phase === 'charging' || dist < aggroRange * 0.8) {
+        // Holds still to shoot; only closes in when out of range
+        moveTarget = null;
+      } else {
+        effectiveSpeed *= 0.5;
+      }
+    } else if (sentinel.awareness === 'search') {
+      // --- SEARCH: investigate the last known position ---
+      effectiveSpeed *= 0.6;
+      moveTarget = sentinel.lastKnownPosition;
+    } else if (sentinel.type === 'patroller' && sentinel.route.length > 0 && !chasing) {
+      // --- PATROLLER: rooftop loop ---
+      effectiveSpeed *= 0.6;
+      moveTarget = sentinel.route[sentinel.routeIndex];
+      if (currentPos.distanceTo(moveTarget) < 10) {
+        sentinel.routeIndex = (sentinel.routeIndex + 1) % sentinel.route.length;
+      }
+    } else if (chasing) {
+      // --- CHASE BEHAVIOR ---
+
+      // 1. Chase Speed: Slightly faster than normal difficulty
+      effectiveSpeed *= 1.1;
+
+      if (sentinel.type === 'hunter') {
+        // Aim where the player will be by the time we get there
+        const lead = Math.min(1.5, dist / Math.max(1, effectiveSpeed));
+        moveTarget = playerPos.clone().add(player.velocity.clone().multiplyScalar(lead));
+      } else if (sentinel.type === 'drone') {
+        // Close in on a spot around the player, tightening as the swarm arrives
+        moveTarget = playerPos.clone().add(sentinel.swarmOffset.clone().multiplyScalar(Math.min(1, dist / 40)));
+      }
+
+      // 2. DODGE WINDOW (Safety Net)
+      // If very close (< 40 units), slow down to give player a chance to escape
+      if (dist < 40) {
+        effectiveSpeed *= sentinel.type === 'seeker' ? 0.4 : 0.6;
+      }
+    } else {
+      // --- LAZY WANDER BEHAVIOR ---
+      effectiveSpeed *= 0.3; // Much slower
+      moveTarget = sentinel.wanderTarget;
+
+      // If reached wander target, continue down the street
+      if (currentPos.distanceTo(moveTarget) < 10) {
+        sentinel.wanderTarget = getPatrolTarget(rng, city.roads, currentPos, true);
+      }
+    }
+
+    const moveStep = moveTarget
+      ? steerTowards(sentinel, moveTarget, city, planner, dt).clone().sub(currentPos).normalize().multiplyScalar(effectiveSpeed * dt)
+      : new Vector3();
+
+    // Swarm members keep a little room between each other
+    if (sentinel.swarmId !== null) {
+      for (const other of sentinels) {
+        if (other === sentinel || other.swarmId !== sentinel.swarmId) continue;
+        const away = currentPos.clone().sub(other.position);
+        const d = away.length();
+        if (d > 0.001 && d < SWARM_SPACING) moveStep.add(away.multiplyScalar((SWARM_SPACING - d) / d * dt * 5));
+      }
+    }
+
+    const nextPos = currentPos.clone().add(moveStep);
+    const radius = archetype.radius;
+
+    // --- Building Collision (Sliding) ---
+    let collisionNormal: Vector3 | null = null;
+
+    // Broadphase: only buildings reasonably close to the sentinel
+    for (const b of city.grid.queryBox(boxAround(nextPos, radius + 4))) {
+      // AABB Intersection
+      const minX = b.position[0] - b.scale[0] / 2 - radius;
+      const maxX = b.position[0] + b.scale[0] / 2 + radius;
+      const minY = b.position[1] - b.scale[1] / 2 - radius;
+      const maxY = b.position[1] + b.scale[1] / 2 + radius;
+      const minZ = b.position[2] - b.scale[2] / 2 - radius;
+      const maxZ = b.position[2] + b.scale[2] / 2 + radius;
+
+      if (nextPos.x > minX && nextPos.x < maxX &&
+        nextPos.y > minY && nextPos.y < maxY &&
+        nextPos.z > minZ && nextPos.z < maxZ) {
+
+        // Determine approximate collision normal
+        const distMinX = Math.abs(nextPos.x - minX);
+        const distMaxX = Math.abs(nextPos.x - maxX);
+        const distMinZ = Math.abs(nextPos.z - minZ);
+        const distMaxZ = Math.abs(nextPos.z - maxZ);
+        const distMinY = Math.abs(nextPos.y - minY);
+        const distMaxY = Math.abs(nextPos.y - maxY);
+
+        const min = Math.min(distMinX, distMaxX, distMinZ, distMaxZ, distMinY, distMaxY);
+
+        collisionNormal = new Vector3();
+        if (min === distMinX) collisionNormal.set(-1, 0, 0);
+        else if (min === distMaxX) collisionNormal.set(1, 0, 0);
+        else if (min === distMinZ) collisionNormal.set(0, 0, -1);
+        else if (min === distMaxZ) collisionNormal.set(0, 0, 1);
+        else if (min === distMinY) collisionNormal.set(0, -1, 0);
+        else if (min === distMaxY) collisionNormal.set(0, 1, 0);
+
+        break; // Handle first collision
+      }
+    }
+
+    // Only the part of the move into the wall is blocked; backing off is always allowed
+    const vDotN = collisionNormal ? moveStep.dot(collisionNormal) : 0;
+    if (collisionNormal && vDotN < 0) {
+      // Slide along wall: Project velocity onto plane perpendicular to normal
+      moveStep.sub(collisionNormal.multiplyScalar(vDotN));
+
+      // Bias upwards slightly to help them climb over buildings
+      moveStep.y += dt * 10;
+    }
+
+    currentPos.add(moveStep);
+    sentinel.velocity.copy(moveStep).divideScalar(dt);
+
+    if (!city.isResident(currentPos.x, currentPos.z)) {
+      deadIds.add(sentinel.id);
+    }
+
+    // Kill Collision
+    if (dist < radius && !result.hit) {
+      result.hit = { cause: 'sentinel', source: currentPos.clone() };
+    }
+  });
+
+  // 2. Sentinel-Sentinel Collision (Destruction)
+  for (let i = 0; i < sentinels.length; i++) {
+    const a = sentinels[i];
+    if (deadIds.has(a.id)) continue;
+
+    for (let j = i + 1; j < sentinels.length; j++) {
+      const b = sentinels[j];
+      if (deadIds.has(b.id)) continue;
+      if (a.swarmId !== null && a.swarmId === b.swarmId) continue;
+
+      const crashDistance = SENTINEL_ARCHETYPES[a.type].radius + SENTINEL_ARCHETYPES[b.type].radius - 1;
+      if (a.position.distanceTo(b.position) < crashDistance) {
+        deadIds.add(a.id);
+        deadIds.add(b.id);
+        result.collisions.push(a.position.clone().add(b.position).multiplyScalar(0.5));
+        break;
+      }
+    }
+  }
+
+  deadIds.forEach(id => planner.cancel(id));
+  store.remove(deadIds);
+
+  return result;
+};
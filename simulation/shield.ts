@@ -0,0 +1,75 @@
+import { Vector3 } from 'three';
+import { WispSimState } from './wispPhysics';
+
+// The wisp's energy shield. A hit from a sentinel (or a sniper beam) costs a charge,
+// throws the wisp clear and leaves it briefly untouchable; only a hit with no
+// charges left ends the run. How forgiving that is comes from ShieldRules.
+
+export interface ShieldRules {
+  // Hits absorbed; the one after the last charge ends the run
+  maxCharges: number;
+  // Seconds without being hit for one charge to come back (0: never)
+  rechargeTime: number;
+  // Seconds after a hit during which nothing else can hit
+  invulnerableTime: number;
+  // Speed the wisp is thrown away from whatever hit it
+  knockback: number;
+}
+
+export const DEFAULT_SHIELD_RULES: ShieldRules = {
+  maxCharges: 3,
+  rechargeTime: 20,
+  invulnerableTime: 1.5,
+  knockback: 45
+};
+
+export interface ShieldState {
+  charges: number;
+  // Seconds of invulnerability left
+  invulnerableTimer: number;
+  // Seconds since the last hit (or the last recharge)
+  rechargeTimer: number;
+}
+
+export const createShieldState = (rules: ShieldRules): ShieldState => ({
+  charges: rules.maxCharges,
+  invulnerableTimer: 0,
+  rechargeTimer: 0
+});
+
+export const isInvulnerable = (shield: ShieldState) => shield.invulnerableTimer > 0;
+
+// Returns true on the tick a charge comes back
+export const stepShield = (shield: ShieldState, rules: ShieldRules, dt: number): boolean => {
+  shield.invulnerableTimer = Math.max(0, shield.invulnerableTimer - dt);
+  if (shield.charges >= rules.maxCharges || rules.rechargeTime <= 0) {
+    shield.rechargeTimer = 0;
+    return false;
+  }
+  shield.rechargeTimer += dt;
+  if (shield.rechargeTimer < rules.rechargeTime) return false;
+  shield.rechargeTimer = 0;
+  shield.charges++;
+  return true;
+};
+
+// Spends a charge on a hit from `source` and knocks the wisp away from it.
+// Returns false when there was no charge left to spend.
+export const absorbHit = (shield: ShieldState, rules: ShieldRules, wisp: WispSimState, source: Vector3): boolean => {
+  if (shield.charges <= 0) return false;
+  shield.charges--;
+  shield.invulnerableTimer = rules.invulnerableTime;
+  shield.rechargeTimer = 0;
+
+  const away = wisp.position.clone().sub(source);
+  if (away.lengthSq() < 1e-6) away.set(0, 1, 0);
+  wisp.velocity.copy(away.normalize().multiplyScalar(rules.knockback));
+  // Always a little lift, so a hit from above doesn't slam the wisp into the street
+  wisp.velocity.y = Math.max(wisp.velocity.y, rules.knockback * 0.4);
+
+  // The hit tears the rope off; grappling again needs a fresh press
+  wisp.grapplePoint = null;
+  wisp.canGrapple = false;
+  wisp.movement = 'AIR';
+  return true;
+};
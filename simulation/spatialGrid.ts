@@ -0,0 +1,281 @@
+import { Vector3 } from 'three';
+import { BuildingPart } from '../types';
+
+// Uniform grid over the XZ plane for axis-aligned boxes (buildings are tall columns,
+// so bucketing by height buys nothing). Each item is registered in every cell its
+// footprint touches; queries de-duplicate with a per-query stamp.
+
+export interface Bounded {
+  position: [number, number, number];
+  scale: [number, number, number];
+}
+
+export interface Aabb {
+  minX: number;
+  minY: number;
+  minZ: number;
+  maxX: number;
+  maxY: number;
+  maxZ: number;
+}
+
+interface GridEntry<T> extends Aabb {
+  item: T;
+  stamp: number;
+}
+
+export interface RaycastHit<T> {
+  item: T;
+  point: Vector3;
+  normal: Vector3;
+  distance: number;
+}
+
+export interface SurfaceHit<T> {
+  item: T;
+  point: Vector3;
+  distance: number;
+}
+
+export const DEFAULT_CELL_SIZE = 100;
+
+// Buildings are indexed per part, so every query works on individual boxes
+export type BuildingGrid = SpatialGrid<BuildingPart>;
+
+export const getBounds = (b: Bounded): Aabb => ({
+  minX: b.position[0] - b.scale[0] / 2,
+  minY: b.position[1] - b.scale[1] / 2,
+  minZ: b.position[2] - b.scale[2] / 2,
+  maxX: b.position[0] + b.scale[0] / 2,
+  maxY: b.position[1] + b.scale[1] / 2,
+  maxZ: b.position[2] + b.scale[2] / 2
+});
+
+// Cube of half-size `radius` around a point
+export const boxAround = (p: Vector3, radius: number): Aabb => ({
+  minX: p.x - radius, minY: p.y - radius, minZ: p.z - radius,
+  maxX: p.x + radius, maxY: p.y + radius, maxZ: p.z + radius
+});
+
+export class SpatialGrid<T extends Bounded> {
+  private cells = new Map<string, GridEntry<T>[]>();
+  private entries = new Map<T, GridEntry<T>>();
+  private stamp = 0;
+
+  constructor(readonly cellSize = DEFAULT_CELL_SIZE) {}
+
+  static from<T extends Bounded>(items: T[], cellSize = DEFAULT_CELL_SIZE): SpatialGrid<T> {
+    const grid = new SpatialGrid<T>(cellSize);
+    items.forEach(item => grid.insert(item));
+    return grid;
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  private cellCoord(v: number) {
+    return Math.floor(v / this.cellSize);
+  }
+
+  private key(cx: number, cz: number) {
+    return `${cx},${cz}`;
+  }
+
+  insert(item: T) {
+    if (this.entries.has(item)) return;
+    const entry: GridEntry<T> = { item, stamp: 0, ...getBounds(item) };
+    this.entries.set(item, entry);
+
+    this.forEachCell(entry, (key) => {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = [];
+        this.cells.set(key, cell);
+      }
+      cell.push(entry);
+    });
+  }
+
+  remove(item: T) {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+    this.entries.delete(item);
+
+    this.forEachCell(entry, (key) => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+      const idx = cell.indexOf(entry);
+      if (idx !== -1) {
+        cell[idx] = cell[cell.length - 1];
+        cell.pop();
+      }
+      if (cell.length === 0) this.cells.delete(key);
+    });
+  }
+
+  private forEachCell(box: Aabb, visit: (key: string) => void) {
+    const x0 = this.cellCoord(box.minX);
+    const x1 = this.cellCoord(box.maxX);
+    const z0 = this.cellCoord(box.minZ);
+    const z1 = this.cellCoord(box.maxZ);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cz = z0; cz <= z1; cz++) {
+        visit(this.key(cx, cz));
+      }
+    }
+  }
+
+  // Visit every item whose box strictly overlaps `box`. Return true from `visit` to stop early.
+  forEachInBox(box: Aabb, visit: (item: T, bounds: Aabb) => boolean | void) {
+    const stamp = ++this.stamp;
+    const x0 = this.cellCoord(box.minX);
+    const x1 = this.cellCoord(box.maxX);
+    const z0 = this.cellCoord(box.minZ);
+    const z1 = this.cellCoord(box.maxZ);
+
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cz = z0; cz <= z1; cz++) {
+        const cell = this.cells.get(this.key(cx, cz));
+        if (!cell) continue;
+        for (const e of cell) {
+          if (e.stamp === stamp) continue;
+          e.stamp = stamp;
+          if (e.maxX <= box.minX || e.minX >= box.maxX) continue;
+          if (e.maxY <= box.minY || e.minY >= box.maxY) continue;
+          if (e.maxZ <= box.minZ || e.minZ >= box.maxZ) continue;
+          if (visit(e.item, e)) return;
+        }
+      }
+    }
+  }
+
+  queryBox(box: Aabb, out: T[] = []): T[] {
+    this.forEachInBox(box, (item) => { out.push(item); });
+    return out;
+  }
+
+  overlapsAny(box: Aabb): boolean {
+    let hit = false;
+    this.forEachInBox(box, () => { hit = true; return true; });
+    return hit;
+  }
+
+  // Closest point on any box surface within maxDist. Points inside a box report the nearest face.
+  nearestSurface(p: Vector3, maxDist: number): SurfaceHit<T> | null {
+    let best: SurfaceHit<T> | null = null;
+    let bestDist = maxDist;
+
+    this.forEachInBox(boxAround(p, maxDist), (item, b) => {
+      const inside = p.x > b.minX && p.x < b.maxX && p.y > b.minY && p.y < b.maxY && p.z > b.minZ && p.z < b.maxZ;
+      const point = new Vector3();
+      let dist: number;
+
+      if (inside) {
+        // Push out through the closest face
+        const faces = [
+          p.x - b.minX, b.maxX - p.x,
+          p.y - b.minY, b.maxY - p.y,
+          p.z - b.minZ, b.maxZ - p.z
+        ];
+        dist = Math.min(...faces);
+        point.copy(p);
+        const face = faces.indexOf(dist);
+        if (face === 0) point.x = b.minX;
+        else if (face === 1) point.x = b.maxX;
+        else if (face === 2) point.y = b.minY;
+        else if (face === 3) point.y = b.maxY;
+        else if (face === 4) point.z = b.minZ;
+        else point.z = b.maxZ;
+      } else {
+        point.set(
+          Math.max(b.minX, Math.min(p.x, b.maxX)),
+          Math.max(b.minY, Math.min(p.y, b.maxY)),
+          Math.max(b.minZ, Math.min(p.z, b.maxZ))
+        );
+        dist = point.distanceTo(p);
+      }
+
+      if (dist <= bestDist) {
+        bestDist = dist;
+        best = { item, point, distance: dist };
+      }
+    });
+
+    return best;
+  }
+
+  // First box hit along a ray (dir must be normalized). Rays starting inside a box ignore that box.
+  // Walks the XZ cells the ray crosses (2D DDA) and stops once no closer hit is possible.
+  raycast(origin: Vector3, dir: Vector3, maxDist: number): RaycastHit<T> | null {
+    const stamp = ++this.stamp;
+    const cs = this.cellSize;
+
+    let cx = this.cellCoord(origin.x);
+    let cz = this.cellCoord(origin.z);
+    const stepX = Math.sign(dir.x);
+    const stepZ = Math.sign(dir.z);
+    const tDeltaX = stepX !== 0 ? Math.abs(cs / dir.x) : Infinity;
+    const tDeltaZ = stepZ !== 0 ? Math.abs(cs / dir.z) : Infinity;
+    let tMaxX = stepX > 0 ? ((cx + 1) * cs - origin.x) / dir.x : stepX < 0 ? (cx * cs - origin.x) / dir.x : Infinity;
+    let tMaxZ = stepZ > 0 ? ((cz + 1) * cs - origin.z) / dir.z : stepZ < 0 ? (cz * cs - origin.z) / dir.z : Infinity;
+
+    let bestT = maxDist;
+    let best: { entry: GridEntry<T>; axis: number } | null = null;
+
+    while (true) {
+      const cell = this.cells.get(this.key(cx, cz));
+      if (cell) {
+        for (const e of cell) {
+          if (e.stamp === stamp) continue;
+          e.stamp = stamp;
+
+          const t1 = (e.minX - origin.x) / dir.x;
+          const t2 = (e.maxX - origin.x) / dir.x;
+          const t3 = (e.minY - origin.y) / dir.y;
+          const t4 = (e.maxY - origin.y) / dir.y;
+          const t5 = (e.minZ - origin.z) / dir.z;
+          const t6 = (e.maxZ - origin.z) / dir.z;
+
+          const nearX = Math.min(t1, t2);
+          const nearY = Math.min(t3, t4);
+          const nearZ = Math.min(t5, t6);
+          const tmin = Math.max(nearX, nearY, nearZ);
+          const tmax = Math.min(Math.max(t1, t2), Math.max(t3, t4), Math.max(t5, t6));
+
+          if (tmax < 0) continue;
+          if (tmin > tmax) continue;
+
+          if (tmin < bestT && tmin > 0) {
+            bestT = tmin;
+            best = { entry: e, axis: tmin === nearX ? 0 : tmin === nearY ? 1 : 2 };
+          }
+        }
+      }
+
+      const tNext = Math.min(tMaxX, tMaxZ);
+      if (tNext > bestT || !isFinite(tNext)) break;
+      if (tMaxX < tMaxZ) {
+        cx += stepX;
+        tMaxX += tDeltaX;
+      } else {
+        cz += stepZ;
+        tMaxZ += tDeltaZ;
+      }
+    }
+
+    if (!best) return null;
+
+    const normal = new Vector3();
+    if (best.axis === 0) normal.x = -Math.sign(dir.x);
+    else if (best.axis === 1) normal.y = -Math.sign(dir.y);
+    else normal.z = -Math.sign(dir.z);
+
+    return {
+      item: best.entry.item,
+      point: origin.clone().add(dir.clone().multiplyScalar(bestT)),
+      normal,
+      distance: bestT
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { StarData } from '../types';
+import { StarField } from './starField';
+
+const star = (id: string, x = 0): StarData => ({ id, position: [x, 10, 0], collected: false, type: 'normal' });
+
+describe('dirty slots', () => {
+  it('rewrites everything first, then only what changed', () => {
+    const field = new StarField(10);
+    field.add(star('a'));
+    field.add(star('b', 5));
+    expect(field.consumeDirtySlots()).toBeNull();
+
+    field.add(star('c', 10));
+    expect(field.consumeDirtySlots()).toEqual(new Set([2]));
+    expect(field.consumeDirtySlots()).toEqual(new Set());
+  });
+
+  it('moves the last star into a removed slot', () => {
+    const field = new StarField(10);
+    ['a', 'b', 'c'].forEach((id, i) => field.add(star(id, i * 5)));
+    field.consumeDirtySlots();
+
+    field.remove('a');
+    expect(field.consumeDirtySlots()).toEqual(new Set([0]));
+    expect(field.at(0).id).toBe('c');
+  });
+
+  it('gives a second consumer a full rewrite', () => {
+    const field = new StarField(10);
+    field.add(star('a'));
+    field.add(star('b', 5));
+    field.consumeDirtySlots();
+    expect(field.consumeDirtySlots()).toEqual(new Set());
+
+    // A fresh mesh mounting on the same field
+    field.markAllDirty();
+    expect(field.consumeDirtySlots()).toBeNull();
+    expect(field.consumeDirtySlots()).toEqual(new Set());
+  });
+});
@@ -0,0 +1,140 @@
+import { Vector3 } from 'three';
+import { StarData } from '../types';
+
+// Live stars, bucketed on an XZ hash for pickup queries and packed densely so
+// index == InstancedMesh slot. Removing a star moves the last one into its slot
+// (swap-remove), so rendering only ever touches `size` instances and only the
+// slots listed in the dirty set need re-uploading.
+
+const CELL_SIZE = 64;
+
+export class StarField {
+  private stars: StarData[] = [];
+  private slotById = new Map<string, number>();
+  private cells = new Map<string, StarData[]>();
+  private dirtySlots = new Set<number>();
+  private dirtyAll = true;
+
+  constructor(readonly capacity: number) {}
+
+  get size() {
+    return this.stars.length;
+  }
+
+  private cellKey(x: number, z: number) {
+    return `${Math.floor(x / CELL_SIZE)},${Math.floor(z / CELL_SIZE)}`;
+  }
+
+  at(slot: number): StarData {
+    return this.stars[slot];
+  }
+
+  has(id: string) {
+    return this.slotById.has(id);
+  }
+
+  all(): readonly StarData[] {
+    return this.stars;
+  }
+
+  // Returns false when full (or the id is already live)
+  add(star: StarData): boolean {
+    if (this.stars.length >= this.capacity || this.slotById.has(star.id)) return false;
+
+    const slot = this.stars.length;
+    this.stars.push(star);
+    this.slotById.set(star.id, slot);
+    this.dirtySlots.add(slot);
+
+    const key = this.cellKey(star.position[0], star.position[2]);
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = [];
+      this.cells.set(key, cell);
+    }
+    cell.push(star);
+    return true;
+  }
+
+  remove(id: string): StarData | null {
+    const slot = this.slotById.get(id);
+    if (slot === undefined) return null;
+    const star = this.stars[slot];
+
+    // Swap-remove to keep slots dense
+    const last = this.stars.pop()!;
+    this.slotById.delete(id);
+    if (last !== star) {
+      this.stars[slot] = last;
+      this.slotById.set(last.id, slot);
+      this.dirtySlots.add(slot);
+    }
+    this.dirtySlots.delete(this.stars.length);
+
+    const key = this.cellKey(star.position[0], star.position[2]);
+    const cell = this.cells.get(key);
+    if (cell) {
+      const idx = cell.indexOf(star);
+      if (idx !== -1) {
+        cell[idx] = cell[cell.length - 1];
+        cell.pop();
+      }
+      if (cell.length === 0) this.cells.delete(key);
+    }
+    return star;
+  }
+
+  clear() {
+    this.stars = [];
+    this.slotById.clear();
+    this.cells.clear();
+    this.dirtySlots.clear();
+    this.dirtyAll = true;
+  }
+
+  // A new renderer starts from blank instances, so its first read must rewrite every slot
+  markAllDirty() {
+    this.dirtyAll = true;
+  }
+
+  forEachNear(pos: Vector3, radius: number, visit: (star: StarData) => void) {
+    const x0 = Math.floor((pos.x - radius) / CELL_SIZE);
+    const x1 = Math.floor((pos.x + radius) / CELL_SIZE);
+    const z0 = Math.floor((pos.z - radius) / CELL_SIZE);
+    const z1 = Math.floor((pos.z + radius) / CELL_SIZE);
+    const radiusSq = radius * radius;
+
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cz = z0; cz <= z1; cz++) {
+        const cell = this.cells.get(`${cx},${cz}`);
+        if (!cell) continue;
+        for (const star of cell) {
+          const dx = star.position[0] - pos.x;
+          const dy = star.position[1] - pos.y;
+          const dz = star.position[2] - pos.z;
+          if (dx * dx + dy * dy + dz * dz < radiusSq) visit(star);
+        }
+      }
+    }
+  }
+
+  // Remove and return every star within radius of pos
+  collectWithin(pos: Vector3, radius: number): StarData[] {
+    const found: StarData[] = [];
+    this.forEachNear(pos, radius, (star) => found.push(star));
+    found.forEach(star => this.remove(star.id));
+    return found;
+  }
+
+  // For the renderer: slots whose contents changed since the last call (null = rewrite everything)
+  consumeDirtySlots(): Set<number> | null {
+    if (this.dirtyAll) {
+      this.dirtyAll = false;
+      this.dirtySlots.clear();
+      return null;
+    }
+    const slots = this.dirtySlots;
+    this.dirtySlots = new Set();
+    return slots;
+  }
+}
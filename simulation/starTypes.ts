@@ -0,0 +1,43 @@
+import { StarType } from '../types';
+
+// What each kind of star is worth and how often it turns up. cityGenerator places
+// them, GameSimulation applies their effects, and the renderer and collect chime
+// tell them apart.
+
+export interface StarTypeRules {
+  // Score and energy on pickup
+  value: number;
+  color: string;
+}
+
+export const STAR_TYPES: Record<StarType, StarTypeRules> = {
+  normal: { value: 1, color: '#ffd700' },
+  // Rare, on top of a chunk's tallest building
+  spire: { value: 5, color: '#ff40d0' },
+  // Strung out in a trail between two rooftops
+  chain: { value: 1, color: '#40ff80' },
+  // Only from replenishment, and gone again after FLASH_LIFETIME
+  flash: { value: 3, color: '#ffffff' },
+  // Hides the wisp from sentinels for VOID_DURATION
+  void: { value: 1, color: '#8a40ff' }
+};
+
+// Chunk generation: chance of a spire star, a chain and a void star per chunk
+export const SPIRE_STAR_CHANCE = 0.3;
+export const CHAIN_CHANCE = 0.4;
+export const VOID_STAR_CHANCE = 0.2;
+export const CHAIN_LENGTH = 6;
+// Chains span rooftops this far apart, and arc this high between them
+export const CHAIN_MIN_SPAN = 60;
+export const CHAIN_MAX_SPAN = 140;
+export const CHAIN_ARC = 25;
+// A whole chain collected end to end, in order
+export const CHAIN_BONUS = 10;
+
+// Replenishment: share of new stars that are flash / void stars
+export const FLASH_CHANCE = 0.12;
+export const REPLENISH_VOID_CHANCE = 0.02;
+export const FLASH_LIFETIME = 12;
+
+// Seconds the wisp stays hidden after a void star
+export const VOID_DURATION = 8;
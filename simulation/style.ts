@@ -0,0 +1,153 @@
+import type { GameEvent } from './gameSimulation';
+import { SentinelState } from './sentinels';
+import { SENTINEL_ARCHETYPES } from './sentinelArchetypes';
+import { WispSimState } from './wispPhysics';
+
+// Style scoring, kept apart from the star count. Tricks earn points times a combo
+// multiplier; every trick raises the multiplier, which holds for COMBO_WINDOW and
+// then drains back to 1. Getting hit drops it at once. GameSimulation feeds in each
+// tick's events once everything else has stepped, so style only ever reacts to what
+// the wisp and the sentinels already did.
+
+export type TrickId = 'wallChain' | 'longSwing' | 'slingshot' | 'nearMiss' | 'airStars';
+
+export const TRICK_LABELS: Record<TrickId, string> = {
+  wallChain: 'WALL CHAIN',
+  longSwing: 'LONG SWING',
+  slingshot: 'SLINGSHOT',
+  nearMiss: 'NEAR MISS',
+  airStars: 'AIR STARS'
+};
+
+export interface Trick {
+  trick: TrickId;
+  // Wall jumps or stars in the chain, or seconds on the rope
+  count: number;
+  points: number;
+  // Multiplier the points were scored at
+  multiplier: number;
+}
+
+export const MAX_MULTIPLIER = 5;
+const MULTIPLIER_STEP = 0.5;
+// Seconds the multiplier holds after a trick, then how fast it drains per second
+export const COMBO_WINDOW = 3;
+const MULTIPLIER_DECAY = 1;
+
+const WALL_CHAIN_POINTS = 10; // per wall jump in the chain
+const LONG_SWING_TIME = 2;
+const SWING_POINTS = 10; // per second on the rope
+const SLINGSHOT_POINTS = 15;
+const AIR_STAR_POINTS = 5; // per star in the airborne run
+const NEAR_MISS_POINTS = 25;
+// Clearance to a sentinel's body that counts as close; it has to pull back to twice this
+const NEAR_MISS_DISTANCE = 6;
+// Seconds after a hit when nothing counts as a near miss (the knockback flies you clear)
+const HIT_GRACE = 2;
+
+export interface StyleState {
+  score: number;
+  multiplier: number;
+  // Seconds the multiplier holds before draining
+  comboTimer: number;
+  grounded: boolean;
+  // Since last touching the ground
+  wallJumps: number;
+  airStars: number;
+  // Run time the current swing started, null off the rope
+  swingStart: number | null;
+  // Sentinels that came within near-miss distance and haven't pulled away yet
+  grazing: Set<string>;
+  hitGrace: number;
+}
+
+export const createStyleState = (): StyleState => ({
+  score: 0,
+  multiplier: 1,
+  comboTimer: 0,
+  grounded: false,
+  wallJumps: 0,
+  airStars: 0,
+  swingStart: null,
+  grazing: new Set(),
+  hitGrace: 0
+});
+
+// Scores one tick; `time` is the run clock at the end of it. Returns the tricks landed.
+export const stepStyle = (
+  style: StyleState,
+  events: readonly GameEvent[],
+  wisp: WispSimState,
+  sentinels: readonly SentinelState[],
+  time: number,
+  dt: number
+): Trick[] => {
+  const tricks: Trick[] = [];
+  const award = (trick: TrickId, count: number, base: number) => {
+    const points = Math.round(base * style.multiplier);
+    style.score += points;
+    tricks.push({ trick, count, points, multiplier: style.multiplier });
+    style.multiplier = Math.min(MAX_MULTIPLIER, style.multiplier + MULTIPLIER_STEP);
+    style.comboTimer = COMBO_WINDOW;
+  };
+
+  if (style.comboTimer > 0) style.comboTimer = Math.max(0, style.comboTimer - dt);
+  else style.multiplier = Math.max(1, style.multiplier - MULTIPLIER_DECAY * dt);
+  style.hitGrace = Math.max(0, style.hitGrace - dt);
+
+  // Stars are picked up before the wisp moves, so `grounded` is still last tick's here
+  for (const event of events) {
+    switch (event.type) {
+      case 'movementChange':
+        style.grounded = event.to === 'GROUND';
+        if (style.grounded) {
+          style.wallJumps = 0;
+          style.airStars = 0;
+        }
+        if (event.to === 'GRAPPLING') {
+          style.swingStart = time;
+        } else if (event.from === 'GRAPPLING' && style.swingStart !== null) {
+          const swing = time - style.swingStart;
+          style.swingStart = null;
+          if (swing >= LONG_SWING_TIME) award('longSwing', Math.round(swing * 10) / 10, swing * SWING_POINTS);
+        }
+        break;
+      case 'wallJump':
+        style.wallJumps++;
+        if (style.wallJumps >= 2) award('wallChain', style.wallJumps, style.wallJumps * WALL_CHAIN_POINTS);
+        break;
+      case 'grappleRelease':
+        if (event.slingshot) award('slingshot', 1, SLINGSHOT_POINTS);
+        break;
+      case 'starCollected':
+        if (style.grounded) break;
+        style.airStars++;
+        if (style.airStars >= 2) award('airStars', style.airStars, style.airStars * AIR_STAR_POINTS);
+        break;
+      case 'playerHit':
+        // A fatal hit ends the run as it stands
+        if (event.fatal) break;
+        // The hit tears the rope off without a movement change
+        style.multiplier = 1;
+        style.comboTimer = 0;
+        style.swingStart = null;
+        style.hitGrace = HIT_GRACE;
+        break;
+    }
+  }
+
+  // Near misses: close to a sentinel, then clear of it, without being hit
+  const grazing = new Set<string>();
+  if (style.hitGrace === 0) {
+    for (const sentinel of sentinels) {
+      // A stunned sentinel is no threat
+      if (sentinel.stunTimer > 0) continue;
+      const clearance = sentinel.position.distanceTo(wisp.position) - SENTINEL_ARCHETYPES[sentinel.type].radius;
+      const wasClose = style.grazing.has(sentinel.id);
+      if (clearance < NEAR_MISS_DISTANCE || (wasClose && clearance <= NEAR_MISS_DISTANCE * 2)) grazing.add(sentinel.id);
+      else if (wasClose) award('nearMiss', 1, NEAR_MISS_POINTS);
+    }
+  }
+  style.grazing = grazing;
+  return tricks;
+};
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import { BuildingPart } from '../types';
+import { FIXED_DT } from './fixedStep';
+import { SpatialGrid } from './spatialGrid';
+import {
+  GLIDE_GRAVITY_SCALE, GRAVITY, JUMP_FORCE, MOVE_SPEED_BASE, PLAYER_RADIUS, WALL_JUMP_FORCE_UP,
+  WispEvent, WispInput, WispPhysicsContext, WispSimState, createWispState, stepWisp
+} from './wispPhysics';
+
+const box = (position: [number, number, number], scale: [number, number, number]): BuildingPart =>
+  ({ position, scale, kind: 'body', buildingId: 'test' });
+
+const contextWith = (parts: BuildingPart[] = []): WispPhysicsContext =>
+  ({ grid: SpatialGrid.from(parts), moveSpeed: MOVE_SPEED_BASE });
+
+const idle = (overrides: Partial<WispInput> = {}): WispInput => ({
+  move: { x: 0, y: 0 }, yaw: 0, pitch: 0, jump: false, grapple: false, emp: false, lure: false,
+  ...overrides
+});
+
+const types = (events: WispEvent[]) => events.map(event => event.type);
+
+// Steps until `done` or the tick budget runs out; every event along the way
+const stepUntil = (sim: WispSimState, input: WispInput, ctx: WispPhysicsContext, done: (events: WispEvent[]) => boolean, ticks = 120) => {
+  const seen: WispEvent[] = [];
+  for (let i = 0; i < ticks; i++) {
+    const events = stepWisp(sim, input, ctx, FIXED_DT);
+    seen.push(...events);
+    if (done(events)) break;
+  }
+  return seen;
+};
+
+describe('jump', () => {
+  it('leaves the ground at jump force', () => {
+    const ctx = contextWith();
+    const sim = createWispState(new Vector3(0, PLAYER_RADIUS, 0));
+    stepWisp(sim, idle(), ctx, FIXED_DT);
+    expect(sim.movement).toBe('GROUND');
+
+    const events = stepWisp(sim, idle({ jump: true }), ctx, FIXED_DT);
+    expect(types(events)).toEqual(['jump', 'movementChange']);
+    expect(sim.movement).toBe('AIR');
+    expect(sim.velocity.y).toBe(JUMP_FORCE);
+    expect(sim.position.y).toBeGreaterThan(PLAYER_RADIUS);
+  });
+
+  it('needs the button released before jumping again', () => {
+    const ctx = contextWith();
+    const sim = createWispState(new Vector3(0, PLAYER_RADIUS, 0));
+    stepWisp(sim, idle(), ctx, FIXED_DT);
+    const held = stepUntil(sim, idle({ jump: true }), ctx, () => false, 240);
+    expect(types(held).filter(type => type === 'jump')).toHaveLength(1);
+    expect(sim.position.y).toBeCloseTo(PLAYER_RADIUS);
+
+    stepUntil(sim, idle(), ctx, () => sim.movement === 'GROUND');
+    expect(types(stepWisp(sim, idle({ jump: true }), ctx, FIXED_DT))).toContain('jump');
+  });
+});
+
+describe('glide', () => {
+  it('falls at a fraction of gravity once descending', () => {
+    const ctx = contextWith();
+    const rising = createWispState(new Vector3(0, 100, 0));
+    rising.velocity.y = 5;
+    const falling = createWispState(new Vector3(0, 100, 0));
+    falling.velocity.y = -5;
+
+    stepWisp(rising, idle(), ctx, FIXED_DT);
+    stepWisp(falling, idle(), ctx, FIXED_DT);
+    expect(rising.velocity.y).toBeCloseTo(5 - GRAVITY * FIXED_DT);
+    expect(falling.velocity.y).toBeCloseTo(-5 - GRAVITY * GLIDE_GRAVITY_SCALE * FIXED_DT);
+  });
+});
+
+describe('wall', () => {
+  // Wall face at x = 5, facing -x
+  const wall = box([10, 50, 0], [10, 100, 10]);
+
+  const attached = (ctx: WispPhysicsContext) => {
+    const sim = createWispState(new Vector3(0, 40, 0));
+    sim.velocity.x = 20;
+    const events = stepUntil(sim, idle(), ctx, tick => types(tick).includes('wallAttach'));
+    return { sim, events };
+  };
+
+  it('attaches to a wall it runs into', () => {
+    const { sim, events } = attached(contextWith([wall]));
+    const attach = events.find(event => event.type === 'wallAttach');
+    expect(attach).toEqual({ type: 'wallAttach', normal: new Vector3(-1, 0, 0) });
+    expect(sim.movement).toBe('WALL');
+    expect(sim.position.x).toBeCloseTo(5 - PLAYER_RADIUS);
+    expect(sim.velocity.x).toBeLessThanOrEqual(0);
+
+    // Clinging doesn't send it again
+    expect(types(stepWisp(sim, idle(), contextWith([wall]), FIXED_DT))).not.toContain('wallAttach');
+    expect(sim.movement).toBe('WALL');
+  });
+
+  it('wall-jumps up and away, without re-attaching straight away', () => {
+    const ctx = contextWith([wall]);
+    const { sim } = attached(ctx);
+
+    const events = stepWisp(sim, idle({ jump: true }), ctx, FIXED_DT);
+    expect(types(events)).toEqual(['wallJump', 'movementChange']);
+    expect(sim.movement).toBe('AIR');
+    expect(sim.velocity.y).toBe(WALL_JUMP_FORCE_UP);
+    expect(sim.velocity.x).toBeLessThan(0);
+
+    const after = stepUntil(sim, idle(), ctx, () => false, 10);
+    expect(types(after)).not.toContain('wallAttach');
+    expect(sim.position.x).toBeLessThan(5 - PLAYER_RADIUS);
+  });
+});
+
+describe('grapple', () => {
+  // Tower straight ahead (yaw 0 looks down -z), face at z = -55
+  const tower = box([0, 50, -60], [10, 100, 10]);
+
+  it('fires at what it aims at, pulls in and releases', () => {
+    const ctx = contextWith([tower]);
+    const sim = createWispState(new Vector3(0, 20, 0));
+
+    const fire = stepWisp(sim, idle({ grapple: true }), ctx, FIXED_DT);
+    expect(types(fire)).toEqual(['grappleFire', 'movementChange']);
+    expect(sim.movement).toBe('GRAPPLING');
+    expect(sim.grapplePoint?.z).toBeCloseTo(-55);
+
+    stepUntil(sim, idle({ grapple: true }), ctx, () => false, 20);
+    expect(sim.velocity.z).toBeLessThan(-MOVE_SPEED_BASE);
+    expect(sim.position.z).toBeLessThan(0);
+
+    const release = stepWisp(sim, idle(), ctx, FIXED_DT);
+    expect(release).toContainEqual({ type: 'grappleRelease', slingshot: true });
+    expect(sim.movement).toBe('AIR');
+    expect(sim.grapplePoint).toBeNull();
+  });
+
+  it('misses with nothing in range', () => {
+    const sim = createWispState(new Vector3(0, 20, 0));
+    expect(stepWisp(sim, idle({ grapple: true }), contextWith(), FIXED_DT)).toEqual([]);
+    expect(sim.movement).toBe('AIR');
+  });
+
+  it("won't hold on to a blocked anchor", () => {
+    const ctx = { ...contextWith([tower]), isAnchorBlocked: () => true };
+    const sim = createWispState(new Vector3(0, 20, 0));
+
+    const events = stepWisp(sim, idle({ grapple: true }), ctx, FIXED_DT);
+    expect(types(events)).toEqual(['grappleBlocked']);
+    expect(sim.movement).toBe('AIR');
+    expect(sim.canGrapple).toBe(false);
+  });
+});
@@ -0,0 +1,436 @@
+import { Vector3, MathUtils } from 'three';
+import { BuildingPart } from '../types';
+import { BuildingGrid } from './spatialGrid';
+import { isElevatedPart } from './buildingShapes';
+
+// Headless Wisp movement: no React, no camera, no DOM.
+// Everything the step needs comes in through WispInput / WispPhysicsContext,
+// so it can be driven at a fixed timestep, replayed or unit-tested.
+
+export type MovementState = 'AIR' | 'GROUND' | 'WALL' | 'GRAPPLING';
+
+export interface WispInput {
+  // Combined analog + digital movement. x: strafe right, y: forward. Not yet normalized.
+  move: { x: number; y: number };
+  // Camera look angles (YXZ order): yaw = rotation.y, pitch = rotation.x
+  yaw: number;
+  pitch: number;
+  jump: boolean;
+  grapple: boolean;
+  // Abilities fire on the tick these go down (GameSimulation handles them)
+  emp: boolean;
+  lure: boolean;
+}
+
+export interface WispSimState {
+  position: Vector3;
+  velocity: Vector3;
+  movement: MovementState;
+  wallNormal: Vector3;
+  canJump: boolean;
+  canGrapple: boolean;
+  grapplePoint: Vector3 | null;
+  wallJumpCooldown: number;
+}
+
+export interface WispPhysicsContext {
+  grid: BuildingGrid;
+  moveSpeed: number;
+  // Anchor points a rope can't hold on to (e.g. inside a heavy sentinel's field)
+  isAnchorBlocked?: (point: Vector3) => boolean;
+}
+
+export type WispEvent =
+  | { type: 'jump' }
+  | { type: 'wallJump' }
+  | { type: 'grappleFire'; point: Vector3 }
+  | { type: 'grappleRelease'; slingshot: boolean }
+  | { type: 'grappleBlocked'; point: Vector3 }
+  // Caught hold of a wall (not sent again while it clings on)
+  | { type: 'wallAttach'; normal: Vector3 }
+  // The state machine moved on over the tick (at most one per tick, from where it started to where it ended)
+  | { type: 'movementChange'; from: MovementState; to: MovementState };
+
+export type CollisionResult =
+  | { type: 'none' }
+  | { type: 'floor'; y: number }
+  | { type: 'ceiling'; y: number }
+  | { type: 'wall'; normal: Vector3; snapPos: Vector3 };
+
+// PHYSICS TUNING: "Heavy/Dense" Feel
+// Move speed at zero stars; how it grows is the difficulty's wispSpeed curve
+export const MOVE_SPEED_BASE = 12.0;
+export const GRAVITY = 55.0;
+export const JUMP_FORCE = 30.0;
+export const WALL_JUMP_FORCE_UP = 34.0;
+export const WALL_JUMP_FORCE_OUT = 45.0;
+export const GLIDE_GRAVITY_SCALE = 0.2;
+export const GRAPPLE_SPEED_MULT = 2.0;
+export const GRAPPLE_PULL_FORCE = 40.0; // Reduced base force slightly
+export const GRAPPLE_RANGE = 150;
+export const PLAYER_RADIUS = 0.15;
+export const COLLISION_BUFFER = 1.5;
+export const STICKY_FORCE = 30.0;
+export const WALL_JUMP_COOLDOWN = 0.25;
+
+// Damping below was tuned as a factor per 60fps frame; this keeps it the same per second at any step
+const perFrame = (factor: number, dt: number) => Math.pow(factor, dt * 60);
+
+export const createWispState = (position = new Vector3(0, 30, 0)): WispSimState => ({
+  position: position.clone(),
+  velocity: new Vector3(0, 0, 0),
+  movement: 'AIR',
+  wallNormal: new Vector3(0, 0, 0),
+  canJump: true,
+  canGrapple: true,
+  grapplePoint: null,
+  wallJumpCooldown: 0
+});
+
+// Flattened camera basis, equivalent to applying the camera quaternion to -Z / +X
+export const getForward = (yaw: number, out = new Vector3()) => out.set(-Math.sin(yaw), 0, -Math.cos(yaw));
+export const getRight = (yaw: number, out = new Vector3()) => out.set(Math.cos(yaw), 0, -Math.sin(yaw));
+
+// Full look direction (includes pitch), used for aiming the grapple
+export const getAimDirection = (yaw: number, pitch: number, out = new Vector3()) => {
+  const cosPitch = Math.cos(pitch);
+  return out.set(-Math.sin(yaw) * cosPitch, Math.sin(pitch), -Math.cos(yaw) * cosPitch);
+};
+
+export const castGrappleRay = (origin: Vector3, dir: Vector3, grid: BuildingGrid): Vector3 | null => {
+  return grid.raycast(origin, dir, GRAPPLE_RANGE)?.point ?? null;
+};
+
+const collisionCandidates: BuildingPart[] = [];
+
+// Contact against a single building part
+const collideWithPart = (pos: Vector3, b: BuildingPart): CollisionResult => {
+  if (Math.abs(pos.x - b.position[0]) > b.scale[0] / 2 + PLAYER_RADIUS + 3) return { type: 'none' };
+  if (Math.abs(pos.z - b.position[2]) > b.scale[2] / 2 + PLAYER_RADIUS + 3) return { type: 'none' };
+  if (pos.y > b.position[1] + b.scale[1] / 2 + 2) return { type: 'none' };
+  if (pos.y < b.position[1] - b.scale[1] / 2) return { type: 'none' };
+
+  const minX = b.position[0] - b.scale[0] / 2;
+  const maxX = b.position[0] + b.scale[0] / 2;
+  const minZ = b.position[2] - b.scale[2] / 2;
+  const maxZ = b.position[2] + b.scale[2] / 2;
+  const minY = b.position[1] - b.scale[1] / 2;
+  const maxY = b.position[1] + b.scale[1] / 2;
+
+  if (pos.x > minX - COLLISION_BUFFER && pos.x < maxX + COLLISION_BUFFER &&
+    pos.z > minZ - COLLISION_BUFFER && pos.z < maxZ + COLLISION_BUFFER &&
+    pos.y < maxY + COLLISION_BUFFER) {
+
+    if (pos.y >= maxY - 1.0) {
+      return { type: 'floor', y: maxY + PLAYER_RADIUS };
+    }
+
+    // Bumped the underside of an overhang or bridge
+    if (isElevatedPart(b) && pos.y < minY + 1.0 &&
+      pos.x > minX && pos.x < maxX && pos.z > minZ && pos.z < maxZ) {
+      return { type: 'ceiling', y: minY - PLAYER_RADIUS };
+    }
+
+    const distMinX = Math.abs(pos.x - minX);
+    const distMaxX = Math.abs(pos.x - maxX);
+    const distMinZ = Math.abs(pos.z - minZ);
+    const distMaxZ = Math.abs(pos.z - maxZ);
+    const min = Math.min(distMinX, distMaxX, distMinZ, distMaxZ);
+
+    const normal = new Vector3();
+    const snapPos = pos.clone();
+
+    if (min === distMinX) {
+      normal.set(-1, 0, 0);
+      snapPos.x = minX - PLAYER_RADIUS;
+    }
+    else if (min === distMaxX) {
+      normal.set(1, 0, 0);
+      snapPos.x = maxX + PLAYER_RADIUS;
+    }
+    else if (min === distMinZ) {
+      normal.set(0, 0, -1);
+      snapPos.z = minZ - PLAYER_RADIUS;
+    }
+    else if (min === distMaxZ) {
+      normal.set(0, 0, 1);
+      snapPos.z = maxZ + PLAYER_RADIUS;
+    }
+
+    return { type: 'wall', normal, snapPos };
+  }
+  return { type: 'none' };
+};
+
+// Buildings are made of several parts, so a point can touch more than one box
+// (e.g. standing on a podium next to its tower). Walls win so stacked parts can't
+// be walked through, then ceilings, then the highest floor.
+export const checkCollision = (pos: Vector3, grid: BuildingGrid): CollisionResult => {
+  if (pos.y < PLAYER_RADIUS) return { type: 'floor', y: PLAYER_RADIUS };
+
+  // Broadphase: only parts within reach of this point
+  const reach = PLAYER_RADIUS + 3;
+  collisionCandidates.length = 0;
+  grid.queryBox({
+    minX: pos.x - reach, minY: pos.y - 2, minZ: pos.z - reach,
+    maxX: pos.x + reach, maxY: pos.y + COLLISION_BUFFER, maxZ: pos.z + reach
+  }, collisionCandidates);
+
+  let ceiling: CollisionResult | null = null;
+  let floor: CollisionResult | null = null;
+
+  for (const part of collisionCandidates) {
+    const result = collideWithPart(pos, part);
+    if (result.type === 'wall') return result;
+    if (result.type === 'ceiling') ceiling = result;
+    if (result.type === 'floor' && (!floor || (floor.type === 'floor' && result.y > floor.y))) floor = result;
+  }
+  return ceiling ?? floor ?? { type: 'none' };
+};
+
+// Advance the Wisp by one step. Mutates `sim` in place and returns what happened
+// so the caller can play audio / effects.
+export const stepWisp = (sim: WispSimState, input: WispInput, ctx: WispPhysicsContext, dt: number): WispEvent[] => {
+  const events: WispEvent[] = [];
+  const { moveSpeed, grid, isAnchorBlocked } = ctx;
+  const velocity = sim.velocity;
+  const startMovement = sim.movement;
+
+  if (sim.wallJumpCooldown > 0) {
+    sim.wallJumpCooldown -= dt;
+  }
+
+  // --- Movement Vector ---
+  const forward = getForward(input.yaw);
+  const right = getRight(input.yaw);
+  const inputDir = new Vector3(0, 0, 0);
+  if (input.move.y !== 0) inputDir.add(forward.multiplyScalar(input.move.y));
+  if (input.move.x !== 0) inputDir.add(right.multiplyScalar(input.move.x));
+  if (inputDir.lengthSq() > 0) inputDir.normalize();
+
+  // --- Grapple Logic ---
+  // A rope whose anchor ends up blocked snaps; the button has to be released to retry
+  if (sim.grapplePoint && isAnchorBlocked?.(sim.grapplePoint)) {
+    events.push({ type: 'grappleBlocked', point: sim.grapplePoint });
+    sim.grapplePoint = null;
+    sim.canGrapple = false;
+    sim.movement = 'AIR';
+  }
+
+  if (input.grapple) {
+    if (sim.canGrapple && !sim.grapplePoint) {
+      const rayDir = getAimDirection(input.yaw, input.pitch);
+      const hit = castGrappleRay(sim.position, rayDir, grid);
+      if (hit && isAnchorBlocked?.(hit)) {
+        sim.canGrapple = false;
+        events.push({ type: 'grappleBlocked', point: hit });
+      } else if (hit) {
+        sim.grapplePoint = hit;
+        sim.movement = 'GRAPPLING';
+        events.push({ type: 'grappleFire', point: hit.clone() });
+      }
+    }
+  } else {
+    // Grapple Release Boost
+    if (sim.movement === 'GRAPPLING') {
+      sim.movement = 'AIR';
+      // If releasing while moving fast, apply a slight slingshot boost
+      const currentSpeed = velocity.length();
+      const slingshot = currentSpeed > moveSpeed;
+      if (slingshot) {
+        // Add a 15% boost to current velocity to simulate the "snap" release
+        velocity.add(velocity.clone().normalize().multiplyScalar(currentSpeed * 0.15));
+      }
+      events.push({ type: 'grappleRelease', slingshot });
+    }
+    sim.grapplePoint = null;
+    sim.canGrapple = true;
+  }
+
+  // --- Physics State Machine ---
+  let gravityMult = 1.0;
+  const isGliding = sim.movement === 'AIR' && velocity.y < 0;
+
+  if (sim.movement === 'WALL') {
+    gravityMult = 0;
+  } else if (sim.movement === 'GRAPPLING') {
+    gravityMult = 0.5;
+  } else if (isGliding) {
+    gravityMult = GLIDE_GRAVITY_SCALE;
+  }
+
+  if (sim.movement !== 'WALL' && sim.movement !== 'GROUND') {
+    velocity.y -= GRAVITY * gravityMult * dt;
+  }
+
+  // --- MOVEMENT PHYSICS ---
+  if (sim.movement === 'GRAPPLING' && sim.grapplePoint) {
+    const toPoint = sim.grapplePoint.clone().sub(sim.position);
+    const dist = toPoint.length();
+    const dir = toPoint.normalize();
+
+    // ELASTICITY: Spring force (Hooke's Law approximation)
+    // Pulls harder when far away (snappy), softer when close (floaty)
+    // Reduced multiplier from 3.0 to 1.5 to prevent excessive speed gain
+    const springForce = GRAPPLE_PULL_FORCE + (dist * 1.5);
+
+    // Add pull force
+    velocity.add(dir.multiplyScalar(springForce * dt));
+
+    // Allow swing influence (air control during grapple)
+    if (inputDir.lengthSq() > 0) {
+      velocity.add(inputDir.multiplyScalar(moveSpeed * GRAPPLE_SPEED_MULT * dt));
+    }
+
+    // Speed Limiter on Rope
+    const currentSpeed = velocity.length();
+    const maxSafeSpeed = moveSpeed * 2.5;
+
+    if (currentSpeed > maxSafeSpeed) {
+      // Stronger damping if overspeeding to prevent infinite energy gain
+      velocity.multiplyScalar(perFrame(0.97, dt));
+    } else {
+      // Minimal damping normally (Pendulum effect)
+      velocity.multiplyScalar(perFrame(0.998, dt));
+    }
+
+  } else if (sim.movement === 'WALL') {
+    const vDotN = velocity.dot(sim.wallNormal);
+    if (vDotN < 0) velocity.sub(sim.wallNormal.clone().multiplyScalar(vDotN));
+
+    const inputDotN = inputDir.dot(sim.wallNormal);
+    const wallMoveDir = inputDir.clone().sub(sim.wallNormal.clone().multiplyScalar(inputDotN));
+
+    velocity.add(wallMoveDir.multiplyScalar(moveSpeed * 6 * dt));
+    const wallDrag = perFrame(0.92, dt);
+    velocity.x *= wallDrag;
+    velocity.z *= wallDrag;
+    velocity.y *= perFrame(0.6, dt);
+
+    // Sticky force: Push into wall to maintain state contact
+    velocity.sub(sim.wallNormal.clone().multiplyScalar(STICKY_FORCE * dt));
+
+    if (input.jump && sim.canJump) {
+      velocity.y = WALL_JUMP_FORCE_UP;
+      // Increased force away from wall
+      velocity.add(sim.wallNormal.clone().multiplyScalar(WALL_JUMP_FORCE_OUT));
+
+      // Add forward momentum boost if holding direction during wall jump
+      if (inputDir.lengthSq() > 0) {
+        velocity.add(inputDir.multiplyScalar(5.0));
+      }
+
+      sim.movement = 'AIR';
+      sim.canJump = false;
+      sim.grapplePoint = null;
+      sim.wallJumpCooldown = WALL_JUMP_COOLDOWN; // Ignore wall collisions briefly
+      events.push({ type: 'wallJump' });
+    }
+
+  } else {
+    // --- GROUND & AIR MOVEMENT (Momentum Preserving) ---
+    const isGround = sim.movement === 'GROUND';
+
+    // Parameters - Heavier Feel
+    // Lower acceleration (inertia), Higher friction on ground (weight), Lower friction in air (momentum)
+    const accel = isGround ? 60.0 : 45.0;
+
+    // Friction/Drag Logic
+    // Ground Friction 14 (stops faster, feels heavy). Air friction 0.1.
+    let friction = isGround ? 14.0 : 0.1;
+
+    const currentHVel = new Vector3(velocity.x, 0, velocity.z);
+    const hSpeed = currentHVel.length();
+    const limitSpeed = moveSpeed;
+
+    // DYNAMIC AIR FRICTION:
+    // If moving faster than limitSpeed in AIR, reduce friction drastically to preserve that momentum.
+    if (!isGround && hSpeed > limitSpeed) {
+      const overspeedFactor = Math.min(1, (hSpeed - limitSpeed) / limitSpeed);
+      friction = MathUtils.lerp(0.1, 0.001, overspeedFactor);
+    }
+
+    // 1. Apply Input Force (Source Engine Style)
+    if (inputDir.lengthSq() > 0) {
+      // Projection of velocity onto input direction
+      const currentSpeedInDir = currentHVel.dot(inputDir);
+
+      // Only accelerate if we haven't reached max run speed in this direction.
+      // This allows "Air Strafing" mechanics.
+      const availableSpeed = limitSpeed - currentSpeedInDir;
+
+      if (availableSpeed > 0) {
+        const accelToApply = Math.min(availableSpeed, accel * dt);
+        velocity.x += inputDir.x * accelToApply;
+        velocity.z += inputDir.z * accelToApply;
+      }
+    }
+
+    // 2. Apply Drag (frame-rate independent exponential decay)
+    const dragFactor = Math.exp(-friction * dt);
+    velocity.x *= dragFactor;
+    velocity.z *= dragFactor;
+
+    // 3. Jump
+    if (input.jump && sim.movement === 'GROUND' && sim.canJump) {
+      velocity.y = JUMP_FORCE;
+      sim.movement = 'AIR';
+      sim.canJump = false;
+      events.push({ type: 'jump' });
+    }
+  }
+
+  if (!input.jump) sim.canJump = true;
+
+  // --- Integration & Collision Response ---
+  const nextPos = sim.position.clone().add(velocity.clone().multiplyScalar(dt));
+  const collision = checkCollision(nextPos, grid);
+
+  if (collision.type === 'floor') {
+    if (velocity.y > 0) {
+      sim.position.copy(nextPos);
+      if (sim.movement === 'GROUND') sim.movement = 'AIR';
+    } else {
+      sim.position.set(nextPos.x, collision.y, nextPos.z);
+      velocity.y = 0;
+      sim.movement = 'GROUND';
+      if (sim.grapplePoint) {
+        sim.grapplePoint = null;
+        sim.canGrapple = false;
+      }
+    }
+  }
+  else if (collision.type === 'ceiling') {
+    sim.position.set(nextPos.x, collision.y, nextPos.z);
+    if (velocity.y > 0) velocity.y = 0;
+    if (sim.movement === 'GROUND' || sim.movement === 'WALL') sim.movement = 'AIR';
+  }
+  else if (collision.type === 'wall') {
+    // Only stick to wall if cooldown is finished
+    if (sim.wallJumpCooldown > 0) {
+      sim.position.copy(nextPos);
+    } else {
+      // Hard Snap to wall surface to prevent "sinking" due to sticky force
+      sim.position.copy(collision.snapPos);
+      if (sim.movement !== 'WALL') events.push({ type: 'wallAttach', normal: collision.normal.clone() });
+      sim.movement = 'WALL';
+      sim.wallNormal.copy(collision.normal);
+
+      if (sim.grapplePoint) {
+        sim.grapplePoint = null;
+        sim.canGrapple = false;
+      }
+
+      // Cancel velocity into the wall
+      const vDotN = velocity.dot(collision.normal);
+      if (vDotN < 0) velocity.sub(collision.normal.clone().multiplyScalar(vDotN));
+    }
+  }
+  else {
+    sim.position.copy(nextPos);
+    if (sim.movement === 'GROUND' || sim.movement === 'WALL') sim.movement = 'AIR';
+  }
+
+  if (sim.movement !== startMovement) events.push({ type: 'movementChange', from: startMovement, to: sim.movement });
+  return events;
+};
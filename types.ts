@@ -1,22 +1,38 @@
-import * as THREE from 'three';
+import type { DistrictId } from './simulation/districts';
+import type { DifficultyId } from './simulation/difficulty';
+import type { GameModeId } from './simulation/gameModes';
+import type { RaceResult } from './simulation/raceCourse';
+
+// One axis-aligned box of a building. Collision, grapple and rendering all work per part.
+export type BuildingPartKind = 'body' | 'tier' | 'podium' | 'tower' | 'overhang' | 'bridge';
+
+export interface BuildingPart {
+  position: [number, number, number];
+  scale: [number, number, number];
+  kind: BuildingPartKind;
+  buildingId: string;
+}
 
 export interface BuildingData {
+  // Bounds of all parts
   position: [number, number, number];
   scale: [number, number, number];
   color: string;
   id: string;
+  parts: BuildingPart[];
 }
 
+export type StarType = 'normal' | 'spire' | 'chain' | 'flash' | 'void';
+
 export interface StarData {
   id: string;
   position: [number, number, number];
   collected: boolean;
-}
-
-export interface SentinelData {
-  id: string;
-  position: THREE.Vector3;
-  speed: number;
+  type: StarType;
+  // Chain stars: which trail, and where along it
+  chain?: { id: string; index: number; length: number };
+  // Flash stars: run time they blink out at
+  expiresAt?: number;
 }
 
 export enum WispColor {
@@ -30,4 +46,57 @@ export interface MobileInputState {
   look: { x: number; y: number };
   jump: boolean;
   grapple: boolean;
-}
\ No newline at end of file
+  emp: boolean;
+  lure: boolean;
+}
+
+export type DeathCause = 'sentinel' | 'sniperBeam';
+
+// Caught, or the mode's own ending: target reached, clock out, or ended from the pause screen
+export type RunEndCause = DeathCause | 'cleared' | 'timeUp' | 'quit';
+export const RUN_END_CAUSES: readonly RunEndCause[] = ['sentinel', 'sniperBeam', 'cleared', 'timeUp', 'quit'];
+
+// What GameScene knows at the moment the run ends
+export interface GameOverInfo {
+  cause: RunEndCause;
+  survivalTime: number; // seconds of active play
+  // Points from tricks, kept apart from the star score
+  styleScore: number;
+  district: DistrictId;
+  // Race mode only
+  race?: RaceResult;
+}
+
+export interface RunRecord extends GameOverInfo {
+  id: string;
+  score: number;
+  seed: number;
+  wispColor: string;
+  mode: GameModeId;
+  difficulty: DifficultyId;
+  // Steps adaptive mode had eased the difficulty off by
+  ease: number;
+  date: string; // ISO timestamp
+}
+
+// Everything the player can do, independent of the device doing it
+export type InputAction =
+  | 'moveForward' | 'moveBack' | 'moveLeft' | 'moveRight'
+  | 'lookUp' | 'lookDown' | 'lookLeft' | 'lookRight'
+  | 'jump' | 'grapple' | 'emp' | 'lure' | 'pause';
+
+export type InputBinding =
+  | { device: 'keyboard'; code: string }
+  | { device: 'mouse'; button: number }
+  | { device: 'gamepadButton'; button: number }
+  | { device: 'gamepadAxis'; axis: number; direction: 1 | -1 };
+
+// Rebindable columns: mouse buttons live in the keyboard slot
+export type BindingSlot = 'keyboard' | 'gamepad';
+
+export type ActionBindings = Record<InputAction, Record<BindingSlot, InputBinding[]>>;
+
+export interface InputProfile {
+  name: string;
+  bindings: ActionBindings;
+}